@@ -5,6 +5,9 @@ import { Layout } from './components/Layout';
 import { Dashboard } from './pages/Dashboard';
 import { Buckets } from './pages/Buckets';
 import { Files } from './pages/Files';
+import { Transactions } from './pages/Transactions';
+import { Providers } from './pages/Providers';
+import { Settings } from './pages/Settings';
 
 function App() {
   return (
@@ -15,6 +18,9 @@ function App() {
             <Route path="/" element={<Dashboard />} />
             <Route path="/buckets" element={<Buckets />} />
             <Route path="/files" element={<Files />} />
+            <Route path="/transactions" element={<Transactions />} />
+            <Route path="/providers" element={<Providers />} />
+            <Route path="/settings" element={<Settings />} />
           </Routes>
         </Layout>
       </BrowserRouter>
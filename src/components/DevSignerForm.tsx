@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Button } from './Button';
+import { DEV_ACCOUNTS, DEV_MNEMONIC } from '../config/devAccounts';
+
+interface DevSignerFormProps {
+  onConnect: (secret: string, addressIndex: number) => void;
+  onClose: () => void;
+}
+
+const CUSTOM_ACCOUNT = 'custom';
+
+export function DevSignerForm({ onConnect, onClose }: DevSignerFormProps) {
+  const [selectedAccount, setSelectedAccount] = useState<string>(DEV_ACCOUNTS[0].name);
+  const [secret, setSecret] = useState('');
+  const [addressIndex, setAddressIndex] = useState('0');
+
+  const isCustom = selectedAccount === CUSTOM_ACCOUNT;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isCustom) {
+      onConnect(secret, Number(addressIndex) || 0);
+    } else {
+      const account = DEV_ACCOUNTS.find((a) => a.name === selectedAccount) ?? DEV_ACCOUNTS[0];
+      onConnect(DEV_MNEMONIC, account.addressIndex);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-dh-800 border border-dh-700 rounded-lg w-full max-w-md max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-dh-700">
+          <h3 className="text-lg font-semibold text-white">Connect Dev Signer</h3>
+          <button onClick={onClose} className="text-dh-300 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <p className="text-xs text-yellow-400">
+            Keys are kept in memory only and never leave the browser. Use development accounts only.
+          </p>
+
+          <div>
+            <label htmlFor="devAccount" className="block text-sm font-medium text-dh-200 mb-1">
+              Account
+            </label>
+            <select
+              id="devAccount"
+              value={selectedAccount}
+              onChange={(e) => setSelectedAccount(e.target.value)}
+              className="w-full px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-sage-500"
+            >
+              {DEV_ACCOUNTS.map((account) => (
+                <option key={account.name} value={account.name}>
+                  {account.name}
+                </option>
+              ))}
+              <option value={CUSTOM_ACCOUNT}>Private key or mnemonic...</option>
+            </select>
+          </div>
+
+          {isCustom && (
+            <>
+              <div>
+                <label htmlFor="devSecret" className="block text-sm font-medium text-dh-200 mb-1">
+                  Private Key or Mnemonic
+                </label>
+                <textarea
+                  id="devSecret"
+                  value={secret}
+                  onChange={(e) => setSecret(e.target.value)}
+                  rows={3}
+                  placeholder="0x... or twelve words"
+                  className="w-full px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-white font-mono text-sm placeholder-dh-400 focus:outline-none focus:ring-2 focus:ring-sage-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label htmlFor="devAddressIndex" className="block text-sm font-medium text-dh-200 mb-1">
+                  Address Index (mnemonic only)
+                </label>
+                <input
+                  type="number"
+                  id="devAddressIndex"
+                  min={0}
+                  value={addressIndex}
+                  onChange={(e) => setAddressIndex(e.target.value)}
+                  className="w-full px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-sage-500 focus:border-transparent"
+                />
+              </div>
+            </>
+          )}
+
+          <Button type="submit" disabled={isCustom && !secret.trim()} className="w-full">
+            Connect
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
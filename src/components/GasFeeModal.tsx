@@ -0,0 +1,119 @@
+import { formatUnits } from 'viem';
+import { Button } from './Button';
+import { formatTokenAmount } from '../utils/formatting';
+import { useAppState } from '../hooks/useAppState';
+import { useGasSpeed } from '../hooks/useGasSpeed';
+import { useBalance } from '../hooks/useBalance';
+import { GAS_SPEEDS, setGasSpeed } from '../services/gasService';
+import type { GasEstimate, GasSpeed } from '../types';
+
+interface GasFeeModalProps {
+  title: string;
+  estimate: GasEstimate;
+  // Number of transactions the confirmation will send, each costing roughly the estimate
+  transactionCount?: number;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const SPEED_LABELS: Record<GasSpeed, string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast',
+};
+
+export function GasFeeModal({ title, estimate, transactionCount = 1, onConfirm, onClose }: GasFeeModalProps) {
+  const { networkKey, networks } = useAppState();
+  const gasSpeed = useGasSpeed();
+  const balance = useBalance();
+  const { symbol, decimals } = networks[networkKey].nativeCurrency;
+
+  const formatCost = (cost: bigint) => formatTokenAmount(cost * BigInt(transactionCount), decimals, symbol);
+
+  // The account must cover the worst-case fee and the deposit of every transaction
+  const deposit = estimate.deposit ?? BigInt(0);
+  const required = (estimate.gas * estimate.presets[gasSpeed].maxFeePerGas + deposit) * BigInt(transactionCount);
+  const isBalanceTooLow = balance !== null && balance < required;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-dh-800 border border-dh-700 rounded-lg w-full max-w-md max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-dh-700">
+          <h3 className="text-lg font-semibold text-white">{title}</h3>
+          <button onClick={onClose} className="text-dh-300 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {GAS_SPEEDS.map((speed) => (
+              <button
+                key={speed}
+                type="button"
+                onClick={() => setGasSpeed(speed)}
+                className={`px-3 py-2 rounded-lg border text-left transition-colors ${
+                  gasSpeed === speed
+                    ? 'bg-sage-600 border-sage-600 text-white'
+                    : 'bg-dh-900 border-dh-700 text-dh-300 hover:border-dh-600'
+                }`}
+              >
+                <p className="text-sm font-medium">{SPEED_LABELS[speed]}</p>
+                <p className="text-xs font-mono break-all">{formatCost(estimate.presets[speed].estimatedCost)}</p>
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-dh-900 rounded-lg p-3 space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-dh-400">Gas Limit</span>
+              <span className="font-mono text-dh-200">{estimate.gas.toString()}</span>
+            </div>
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-dh-400">Priority Fee</span>
+              <span className="font-mono text-dh-200">
+                {formatUnits(estimate.presets[gasSpeed].maxPriorityFeePerGas, 9)} gwei
+              </span>
+            </div>
+            {deposit > BigInt(0) && (
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-dh-400">Storage Deposit</span>
+                <span className="font-mono text-dh-200">{formatCost(deposit)}</span>
+              </div>
+            )}
+            {transactionCount > 1 && (
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-dh-400">Transactions</span>
+                <span className="text-dh-200">{transactionCount}</span>
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-dh-400">
+            Estimated cost at the current base fee. Your wallet may still show a slightly different amount.
+          </p>
+
+          {isBalanceTooLow && (
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 text-sm text-red-400">
+              Your balance of {formatTokenAmount(balance, decimals, symbol)} is below the up to{' '}
+              {formatTokenAmount(required, decimals, symbol)} needed for fees and deposits.
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={onConfirm} disabled={isBalanceTooLow} className="flex-1">
+              Confirm
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
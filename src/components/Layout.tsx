@@ -2,6 +2,9 @@ import { useState } from 'react';
 import type { ReactNode } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAppState } from '../hooks/useAppState';
+import { useBalance } from '../hooks/useBalance';
+import { formatTokenAmount } from '../utils/formatting';
+import { Button } from './Button';
 
 interface LayoutProps {
   children: ReactNode;
@@ -9,17 +12,52 @@ interface LayoutProps {
 
 export function Layout({ children }: LayoutProps) {
   const location = useLocation();
-  const { isWalletConnected, address, isAuthenticated } = useAppState();
+  const {
+    isWalletConnected,
+    isWrongNetwork,
+    address,
+    isAuthenticated,
+    networkKey,
+    networks,
+    switchNetwork,
+    switchWalletNetwork,
+    recoveredTransactions,
+    dismissRecoveredTransaction,
+    isLoading,
+  } = useAppState();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const balance = useBalance();
 
   const navItems = [
     { path: '/', label: 'Dashboard' },
     { path: '/buckets', label: 'Buckets' },
     { path: '/files', label: 'Files' },
+    { path: '/transactions', label: 'Transactions' },
+    { path: '/providers', label: 'Providers' },
+    { path: '/settings', label: 'Settings' },
   ];
 
   const truncateAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
 
+  const { symbol, decimals } = networks[networkKey].nativeCurrency;
+  const balanceLabel = balance !== null ? formatTokenAmount(balance, decimals, symbol, 4) : null;
+
+  const networkSelect = (
+    <select
+      value={networkKey}
+      onChange={(e) => switchNetwork(e.target.value)}
+      disabled={isLoading}
+      className="px-2 py-1.5 bg-dh-900 border border-dh-700 rounded-md text-sm text-dh-200 focus:outline-none focus:ring-2 focus:ring-sage-500 disabled:opacity-50"
+      aria-label="Select network"
+    >
+      {Object.entries(networks).map(([key, network]) => (
+        <option key={key} value={key}>
+          {network.name}
+        </option>
+      ))}
+    </select>
+  );
+
   return (
     <div className="min-h-screen bg-dh-950 text-dh-100">
       {/* Navigation */}
@@ -46,10 +84,12 @@ export function Layout({ children }: LayoutProps) {
                   {item.label}
                 </Link>
               ))}
+              <div className="ml-4">{networkSelect}</div>
               {isWalletConnected && address && (
                 <div className="flex items-center space-x-2 ml-4">
                   <span className={`w-2 h-2 rounded-full ${isAuthenticated ? 'bg-green-400' : 'bg-yellow-400'}`} />
                   <span className="text-sm text-dh-200 font-mono">{truncateAddress(address)}</span>
+                  {balanceLabel && <span className="text-sm text-dh-300">{balanceLabel}</span>}
                 </div>
               )}
             </div>
@@ -89,10 +129,12 @@ export function Layout({ children }: LayoutProps) {
                   {item.label}
                 </Link>
               ))}
+              <div className="px-3 py-2">{networkSelect}</div>
               {isWalletConnected && address && (
                 <div className="flex items-center space-x-2 px-3 py-2">
                   <span className={`w-2 h-2 rounded-full ${isAuthenticated ? 'bg-green-400' : 'bg-yellow-400'}`} />
                   <span className="text-sm text-dh-200 font-mono">{truncateAddress(address)}</span>
+                  {balanceLabel && <span className="text-sm text-dh-300">{balanceLabel}</span>}
                 </div>
               )}
             </div>
@@ -100,6 +142,49 @@ export function Layout({ children }: LayoutProps) {
         )}
       </nav>
 
+      {/* Wrong Network Banner */}
+      {isWalletConnected && isWrongNetwork && (
+        <div className="bg-yellow-500/10 border-b border-yellow-500/30">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between gap-4">
+            <span className="text-sm text-yellow-400">
+              Your wallet is connected to a different network. Switch it to {networks[networkKey]?.name} to continue.
+            </span>
+            <Button size="sm" onClick={switchWalletNetwork}>
+              Switch Network
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Recovered Transactions Banner */}
+      {recoveredTransactions.map((tx) => (
+        <div
+          key={tx.hash}
+          className={`border-b ${
+            tx.status === 'failed'
+              ? 'bg-red-500/10 border-red-500/30'
+              : tx.status === 'done'
+                ? 'bg-green-500/10 border-green-500/30'
+                : 'bg-yellow-500/10 border-yellow-500/30'
+          }`}
+        >
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between gap-4">
+            <span
+              className={`text-sm ${
+                tx.status === 'failed' ? 'text-red-400' : tx.status === 'done' ? 'text-green-400' : 'text-yellow-400'
+              }`}
+            >
+              {tx.message}
+            </span>
+            {tx.status !== 'resuming' && (
+              <Button size="sm" variant="secondary" onClick={() => dismissRecoveredTransaction(tx.hash)}>
+                Dismiss
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">{children}</main>
     </div>
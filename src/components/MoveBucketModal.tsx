@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import { Button } from './Button';
+import { StatusBadge } from './StatusBadge';
+import { GasFeeModal } from './GasFeeModal';
+import { useAppState } from '../hooks/useAppState';
+import { estimateMoveBucketGas, getMainStorageProviders, requestMoveBucket, waitForBucketMove } from '../operations';
+import { formatBytes, formatTokenAmount } from '../utils/formatting';
+import type { GasEstimate, MainStorageProvider } from '../types';
+
+interface MoveBucketModalProps {
+  bucketId: string;
+  currentMspId: string;
+  // Called once the new MSP has accepted the bucket
+  onMoved: (mspId: string) => void;
+  onClose: () => void;
+}
+
+type MoveStep = 'idle' | 'estimating' | 'requesting' | 'waiting' | 'accepted' | 'rejected' | 'expired' | 'error';
+
+export function MoveBucketModal({ bucketId, currentMspId, onMoved, onClose }: MoveBucketModalProps) {
+  const { networkKey, networks } = useAppState();
+  const { symbol, decimals } = networks[networkKey].nativeCurrency;
+
+  const [providers, setProviders] = useState<MainStorageProvider[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedMspId, setSelectedMspId] = useState('');
+  const [selectedValuePropId, setSelectedValuePropId] = useState('');
+  const [step, setStep] = useState<MoveStep>('idle');
+  const [message, setMessage] = useState<string | null>(null);
+  const [gasEstimate, setGasEstimate] = useState<GasEstimate | null>(null);
+
+  // Load the MSPs registered on chain, other than the bucket's current one
+  useEffect(() => {
+    let cancelled = false;
+    getMainStorageProviders()
+      .then((msps) => {
+        if (!cancelled) setProviders(msps.filter((msp) => msp.mspId.toLowerCase() !== currentMspId.toLowerCase()));
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Failed to load storage providers');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentMspId]);
+
+  const selectedMsp = providers?.find((msp) => msp.mspId === selectedMspId) ?? null;
+  const isMoving = step === 'estimating' || step === 'requesting' || step === 'waiting';
+  const truncateHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-8)}`;
+
+  const handleMove = async () => {
+    if (!selectedMspId || !selectedValuePropId) return;
+
+    setMessage(null);
+    try {
+      // Show the fee presets before anything is sent
+      setStep('estimating');
+      setGasEstimate(await estimateMoveBucketGas(bucketId, selectedMspId, selectedValuePropId));
+      setStep('idle');
+    } catch (err) {
+      setStep('error');
+      setMessage(err instanceof Error ? err.message : 'Failed to estimate gas');
+    }
+  };
+
+  const handleConfirmMove = async () => {
+    setGasEstimate(null);
+
+    try {
+      setStep('requesting');
+      await requestMoveBucket(bucketId, selectedMspId, selectedValuePropId);
+
+      setStep('waiting');
+      const outcome = await waitForBucketMove(bucketId, selectedMspId);
+      setStep(outcome);
+      if (outcome === 'accepted') {
+        onMoved(selectedMspId);
+      } else if (outcome === 'expired') {
+        setMessage('The new MSP did not answer before the request expired. The bucket stays with its current MSP.');
+      } else {
+        setMessage('The new MSP rejected the move. The bucket stays with its current MSP.');
+      }
+    } catch (err) {
+      setStep('error');
+      setMessage(err instanceof Error ? err.message : 'Failed to move bucket');
+    }
+  };
+
+  const getStatusBadge = () => {
+    switch (step) {
+      case 'estimating':
+        return <StatusBadge status="pending" label="Estimating fees..." />;
+      case 'requesting':
+        return <StatusBadge status="pending" label="Sending request..." />;
+      case 'waiting':
+        return <StatusBadge status="pending" label="Waiting for the new MSP..." />;
+      case 'accepted':
+        return <StatusBadge status="ready" label="Accepted" />;
+      case 'rejected':
+        return <StatusBadge status="error" label="Rejected" />;
+      case 'expired':
+        return <StatusBadge status="error" label="Expired" />;
+      case 'error':
+        return <StatusBadge status="error" label="Failed" />;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
+      onClick={() => !isMoving && onClose()}
+    >
+      <div
+        className="bg-dh-800 border border-dh-700 rounded-lg w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-dh-700">
+          <h3 className="text-lg font-semibold text-white">Move Bucket</h3>
+          <button
+            onClick={onClose}
+            disabled={isMoving}
+            className="text-dh-300 hover:text-white disabled:opacity-50 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <div className="p-4 space-y-4">
+          <div className="bg-dh-900 rounded-lg p-3">
+            <p className="text-xs text-dh-400 mb-1">Current MSP</p>
+            <p className="text-sm font-mono text-dh-200 break-all">{currentMspId}</p>
+          </div>
+
+          {loadError ? (
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 text-sm text-red-400">{loadError}</div>
+          ) : !providers ? (
+            <p className="text-center py-4 text-sm text-dh-300">Loading storage providers...</p>
+          ) : providers.length === 0 ? (
+            <p className="text-center py-4 text-sm text-dh-300">No other MSPs are registered on this network.</p>
+          ) : (
+            <>
+              <div>
+                <label htmlFor="targetMsp" className="block text-sm font-medium text-dh-200 mb-1">
+                  Target MSP
+                </label>
+                <select
+                  id="targetMsp"
+                  value={selectedMspId}
+                  onChange={(e) => {
+                    setSelectedMspId(e.target.value);
+                    setSelectedValuePropId('');
+                  }}
+                  disabled={isMoving}
+                  className="w-full px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-sage-500"
+                >
+                  <option value="">Select an MSP</option>
+                  {providers.map((msp) => (
+                    <option key={msp.mspId} value={msp.mspId}>
+                      {truncateHash(msp.mspId)} ({formatBytes(Number(msp.capacity - msp.capacityUsed))} free)
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {selectedMsp && (
+                <div>
+                  <p className="block text-sm font-medium text-dh-200 mb-1">Value Proposition</p>
+                  {selectedMsp.valueProps.length === 0 ? (
+                    <p className="text-xs text-dh-400">This MSP has no value propositions registered.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {selectedMsp.valueProps.map((valueProp) => (
+                        <button
+                          key={valueProp.id}
+                          type="button"
+                          onClick={() => setSelectedValuePropId(valueProp.id)}
+                          disabled={!valueProp.isAvailable || isMoving}
+                          className={`w-full px-3 py-2 rounded-lg border text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                            selectedValuePropId === valueProp.id
+                              ? 'bg-sage-600/20 border-sage-600'
+                              : 'bg-dh-900 border-dh-700 hover:border-dh-600'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-sm text-white">
+                              {formatTokenAmount(BigInt(Math.round(valueProp.pricePerGbBlock)), decimals, symbol)} per GB
+                              per block
+                            </span>
+                            <StatusBadge
+                              status={valueProp.isAvailable ? 'ready' : 'unhealthy'}
+                              label={valueProp.isAvailable ? 'Available' : 'Unavailable'}
+                            />
+                          </div>
+                          <p className="text-xs text-dh-300 mt-1">
+                            Up to {formatBytes(valueProp.dataLimitPerBucketBytes)} per bucket
+                          </p>
+                          <p className="text-xs font-mono text-dh-400 truncate">{valueProp.id}</p>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {step !== 'idle' && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-dh-300">Status</span>
+              {getStatusBadge()}
+            </div>
+          )}
+
+          {message && (
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 text-sm text-red-400">{message}</div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={onClose} disabled={isMoving} className="flex-1">
+              {step === 'accepted' ? 'Close' : 'Cancel'}
+            </Button>
+            <Button
+              onClick={handleMove}
+              isLoading={isMoving}
+              disabled={!selectedMspId || !selectedValuePropId || step === 'accepted'}
+              className="flex-1"
+            >
+              Request Move
+            </Button>
+          </div>
+        </div>
+
+        {gasEstimate && (
+          <GasFeeModal
+            title="Confirm Bucket Move"
+            estimate={gasEstimate}
+            onConfirm={handleConfirmMove}
+            onClose={() => setGasEstimate(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
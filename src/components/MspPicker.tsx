@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { Button } from './Button';
+import { StatusBadge } from './StatusBadge';
+import { getMainStorageProviders } from '../operations';
+import { getKnownMspEndpoint, getMspUrl } from '../services/mspService';
+import { formatBytes } from '../utils/formatting';
+import type { MainStorageProvider, MspSelection } from '../types';
+
+interface MspPickerProps {
+  // MSP ID of the current connection, if any
+  currentMspId?: string;
+  onSelect: (selection: MspSelection) => void;
+  onClose: () => void;
+}
+
+type PickerMode = 'onChain' | 'custom';
+
+export function MspPicker({ currentMspId, onSelect, onClose }: MspPickerProps) {
+  const [mode, setMode] = useState<PickerMode>('onChain');
+  const [providers, setProviders] = useState<MainStorageProvider[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedMspId, setSelectedMspId] = useState('');
+  const [url, setUrl] = useState(getMspUrl);
+
+  // Load the MSPs registered on chain
+  useEffect(() => {
+    let cancelled = false;
+    getMainStorageProviders()
+      .then((msps) => {
+        if (!cancelled) setProviders(msps);
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Failed to load storage providers');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const truncateHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-8)}`;
+
+  const handleSelectProvider = (mspId: string) => {
+    setSelectedMspId(mspId);
+    // Pre-fill the backend last used for this provider
+    const knownUrl = getKnownMspEndpoint(mspId);
+    if (knownUrl) setUrl(knownUrl);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSelect(mode === 'onChain' ? { url, expectedMspId: selectedMspId } : { url });
+  };
+
+  const canSubmit = !!url.trim() && (mode === 'custom' || !!selectedMspId);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-dh-800 border border-dh-700 rounded-lg w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-dh-700">
+          <h3 className="text-lg font-semibold text-white">Choose Storage Provider</h3>
+          <button onClick={onClose} className="text-dh-300 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(
+              [
+                ['onChain', 'On-chain Provider'],
+                ['custom', 'Custom URL'],
+              ] as [PickerMode, string][]
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setMode(value)}
+                className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                  mode === value
+                    ? 'bg-sage-600 border-sage-600 text-white'
+                    : 'bg-dh-900 border-dh-700 text-dh-300 hover:border-dh-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'onChain' &&
+            (loadError ? (
+              <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 text-sm text-red-400">
+                {loadError}
+              </div>
+            ) : !providers ? (
+              <p className="text-center py-4 text-sm text-dh-300">Loading storage providers...</p>
+            ) : providers.length === 0 ? (
+              <p className="text-center py-4 text-sm text-dh-300">No MSPs are registered on this network.</p>
+            ) : (
+              <div className="space-y-2">
+                {providers.map((msp) => (
+                  <button
+                    key={msp.mspId}
+                    type="button"
+                    onClick={() => handleSelectProvider(msp.mspId)}
+                    className={`w-full px-3 py-2 rounded-lg border text-left transition-colors ${
+                      selectedMspId === msp.mspId
+                        ? 'bg-sage-600/20 border-sage-600'
+                        : 'bg-dh-900 border-dh-700 hover:border-dh-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-mono text-white">{truncateHash(msp.mspId)}</span>
+                      {msp.mspId.toLowerCase() === currentMspId?.toLowerCase() && (
+                        <StatusBadge status="connected" label="Connected" />
+                      )}
+                    </div>
+                    <p className="text-xs text-dh-300 mt-1">
+                      {formatBytes(Number(msp.capacity - msp.capacityUsed))} free,{' '}
+                      {msp.valueProps.filter((vp) => vp.isAvailable).length} value propositions available
+                    </p>
+                    {getKnownMspEndpoint(msp.mspId) && (
+                      <p className="text-xs font-mono text-dh-400 truncate">{getKnownMspEndpoint(msp.mspId)}</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            ))}
+
+          <div>
+            <label htmlFor="mspUrl" className="block text-sm font-medium text-dh-200 mb-1">
+              Backend URL
+            </label>
+            <input
+              type="text"
+              id="mspUrl"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://msp.example.com/"
+              className="w-full px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-sm font-mono text-white placeholder-dh-400 focus:outline-none focus:ring-2 focus:ring-sage-500 focus:border-transparent"
+            />
+            <p className="text-xs text-dh-400 mt-1">
+              {mode === 'onChain'
+                ? 'The backend must report the selected provider ID.'
+                : 'Connects to any MSP backend without checking its on-chain ID.'}
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="button" variant="secondary" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit} className="flex-1">
+              Connect
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 interface Step {
   label: string;
   status: 'pending' | 'active' | 'completed' | 'error';
+  detail?: string;
 }
 
 interface ProgressStepperProps {
@@ -66,19 +67,22 @@ export function ProgressStepper({ steps }: ProgressStepperProps) {
           </div>
 
           {/* Step label */}
-          <span
-            className={`text-sm ${
-              step.status === 'completed'
-                ? 'text-green-400'
-                : step.status === 'active'
-                ? 'text-sage-400'
-                : step.status === 'error'
-                ? 'text-red-400'
-                : 'text-dh-400'
-            }`}
-          >
-            {step.label}
-          </span>
+          <div>
+            <span
+              className={`text-sm ${
+                step.status === 'completed'
+                  ? 'text-green-400'
+                  : step.status === 'active'
+                  ? 'text-sage-400'
+                  : step.status === 'error'
+                  ? 'text-red-400'
+                  : 'text-dh-400'
+              }`}
+            >
+              {step.label}
+            </span>
+            {step.detail && <p className="text-xs text-dh-400">{step.detail}</p>}
+          </div>
         </div>
       ))}
     </div>
@@ -0,0 +1,62 @@
+import { useWalletProviders } from '../hooks/useWalletProviders';
+
+interface WalletPickerProps {
+  onSelect: (rdns: string | null) => void;
+  onClose: () => void;
+}
+
+export function WalletPicker({ onSelect, onClose }: WalletPickerProps) {
+  const wallets = useWalletProviders();
+  const hasInjectedWallet = typeof window !== 'undefined' && !!window.ethereum;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-dh-800 border border-dh-700 rounded-lg w-full max-w-md max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-dh-700">
+          <h3 className="text-lg font-semibold text-white">Select a Wallet</h3>
+          <button onClick={onClose} className="text-dh-300 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <div className="p-4 space-y-2">
+          {wallets.map((wallet) => (
+            <button
+              key={wallet.info.rdns}
+              onClick={() => onSelect(wallet.info.rdns)}
+              className="w-full flex items-center gap-3 p-3 bg-dh-900 rounded-lg border border-dh-700 hover:border-sage-600/50 hover:bg-dh-700 transition-colors text-left"
+            >
+              <img src={wallet.info.icon} alt="" className="w-8 h-8 rounded" />
+              <div>
+                <p className="text-sm font-medium text-white">{wallet.info.name}</p>
+                <p className="text-xs text-dh-400">{wallet.info.rdns}</p>
+              </div>
+            </button>
+          ))}
+
+          {wallets.length === 0 && hasInjectedWallet && (
+            <button
+              onClick={() => onSelect(null)}
+              className="w-full flex items-center gap-3 p-3 bg-dh-900 rounded-lg border border-dh-700 hover:border-sage-600/50 hover:bg-dh-700 transition-colors text-left"
+            >
+              <div>
+                <p className="text-sm font-medium text-white">Browser Wallet</p>
+                <p className="text-xs text-dh-400">Injected provider (window.ethereum)</p>
+              </div>
+            </button>
+          )}
+
+          {wallets.length === 0 && !hasInjectedWallet && (
+            <p className="text-center py-8 text-sm text-dh-300">
+              No Ethereum wallet found. Please install MetaMask or another Web3 wallet.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
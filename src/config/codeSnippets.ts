@@ -10,32 +10,37 @@ export const dashboardSnippets: CodeSnippet[] = [
     title: 'Connect Wallet',
     code: `// src/services/clientService.ts
 
-export async function connectWallet(): Promise<\`0x\${string}\`> {
-  const provider = getEthereumProvider();
+export async function connectWallet(
+  rdns?: string | null
+): Promise<\`0x\${string}\`> {
+  // Resolve the wallet the user picked, discovered via EIP-6963
+  // announcements (falls back to window.ethereum)
+  const walletRdns = rdns === undefined ? connectedWalletRdns : rdns;
+  const provider = await getEthereumProvider(walletRdns);
 
   // Opens the wallet popup (e.g., MetaMask) asking the user to connect
   const accounts = await provider.request({
     method: 'eth_requestAccounts',
   });
 
-  // Ensure the wallet is on the StorageHub testnet
+  // Ensure the wallet is on the active network (testnet, local node, ...)
   await switchToCorrectNetwork(provider);
 
   connectedAddress = accounts[0] as \`0x\${string}\`;
 
   // Create a viem WalletClient for signing transactions
   walletClientInstance = createWalletClient({
-    chain,
+    chain: getChain(),
     account: connectedAddress,
     transport: custom(provider),
   });
 
   // Initialize the StorageHub SDK for on-chain storage operations
   storageHubClientInstance = new StorageHubClient({
-    rpcUrl: NETWORKS.testnet.rpcUrl,
-    chain,
+    rpcUrl: getActiveNetwork().rpcUrl,
+    chain: getChain(),
     walletClient: walletClientInstance,
-    filesystemContractAddress: '0x...0404',
+    filesystemContractAddress: getActiveNetwork().filesystemContractAddress,
   });
 
   return connectedAddress;
@@ -46,30 +51,40 @@ export async function connectWallet(): Promise<\`0x\${string}\`> {
     title: 'Connect to MSP',
     code: `// src/services/mspService.ts
 
-// Returns auth credentials for each request, or undefined if not logged in
+// Returns auth credentials for each request, or undefined if not logged in.
+// Sessions are kept per MSP URL and address.
 const sessionProvider = async () => {
   const address = getConnectedAddress();
-  return sessionToken && address
-    ? { token: sessionToken, user: { address } }
+  const session = sessions[\`\${getMspUrl()}|\${address}\`];
+  return session && address
+    ? { token: session.token, user: { address } }
     : undefined;
 };
 
-export async function connectToMsp(): Promise<MspClient> {
-  // Return cached instance if already connected
-  if (mspClientInstance) {
-    return mspClientInstance;
-  }
-
-  const httpCfg: HttpClientConfig = {
-    baseUrl: NETWORKS.testnet.mspUrl,
-  };
+export async function connectToMsp(
+  selection: MspSelection = {}
+): Promise<MspClient> {
+  // A chosen URL, or the last one used on this network
+  const url = selection.url ?? getMspUrl();
 
   // Connect to MSP — sessionProvider attaches auth to each request
-  mspClientInstance = await MspClient.connect(
-    httpCfg,
+  const client = await MspClient.connect(
+    { baseUrl: url },
     sessionProvider
   );
 
+  // When picked from the on-chain provider list, the backend
+  // must report the same MSP ID
+  const info = await client.info.getInfo();
+  if (
+    selection.expectedMspId &&
+    info.mspId !== selection.expectedMspId
+  ) {
+    throw new Error('MSP backend does not match the selected provider');
+  }
+
+  mspClientInstance = client;
+  mspClientUrl = url;
   return mspClientInstance;
 }`,
   },
@@ -93,17 +108,16 @@ export async function authenticateUser(): Promise<UserInfo> {
     uri
   );
 
-  sessionToken = siweSession.token;
+  // Keyed by MSP URL and address, so switching back to
+  // this MSP later doesn't require signing again
+  const sessionKey = \`\${getMspUrl()}|\${getConnectedAddress()}\`;
+  sessions[sessionKey] = { token: siweSession.token };
 
   const profile = await client.auth.getProfile();
-  authenticatedUserProfile = profile;
+  sessions[sessionKey] = { token: siweSession.token, profile };
 
   // Persist to sessionStorage (survives refresh, cleared on tab close)
-  sessionStorage.setItem(SESSION_TOKEN_KEY, sessionToken);
-  sessionStorage.setItem(
-    USER_PROFILE_KEY,
-    JSON.stringify(profile)
-  );
+  sessionStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
 
   return profile;
 }`,
@@ -142,13 +156,16 @@ export async function getBucket(
 
 export async function createBucket(
   bucketName: string,
-  isPrivate: boolean = false
+  isPrivate: boolean = false,
+  valuePropositionId?: string
 ): Promise<{ bucketId: string; txReceipt: TransactionReceipt }> {
   const storageHubClient = getStorageHubClient();
   const address = getConnectedAddress();
 
   const { mspId } = await getMspInfo();
-  const valuePropId = await getValueProps();
+  // The pricing terms the user picked, checked against the
+  // MSP's offered and available value propositions
+  const valuePropId = await getValueProps(valuePropositionId);
 
   // Deterministically derive bucket ID from owner address + name
   const bucketId = await storageHubClient.deriveBucketId(
@@ -156,7 +173,12 @@ export async function createBucket(
     bucketName
   );
 
-  const gasTxOpts = await buildGasTxOpts();
+  // Estimate gas against the precompile (plus a safety margin)
+  // and apply the slow/normal/fast fee preset the user picked
+  const gasTxOpts = await buildGasTxOpts({
+    functionName: 'createBucket',
+    args: [mspId, stringToHex(bucketName), isPrivate, valuePropId],
+  });
 
   // Create bucket on-chain with the chosen MSP and pricing terms
   const txHash = await storageHubClient.createBucket(
@@ -184,7 +206,10 @@ export async function deleteBucket(
   const storageHubClient = getStorageHubClient();
   const publicClient = getPublicClient();
 
-  const gasTxOpts = await buildGasTxOpts();
+  const gasTxOpts = await buildGasTxOpts({
+    functionName: 'deleteBucket',
+    args: [bucketId],
+  });
 
   // Note: bucket must be empty before deletion
   const txHash = await storageHubClient.deleteBucket(
@@ -200,6 +225,137 @@ export async function deleteBucket(
   }
 
   return true;
+}`,
+  },  {
+    id: 'updateBucketPrivacy',
+    title: 'Update Bucket Privacy',
+    code: `// src/operations/bucketOperations.ts
+
+export async function updateBucketPrivacy(
+  bucketId: string,
+  isPrivate: boolean
+): Promise<TransactionReceipt> {
+  const storageHubClient = getStorageHubClient();
+
+  const gasTxOpts = await buildGasTxOpts({
+    functionName: 'updateBucketPrivacy',
+    args: [bucketId, isPrivate],
+  });
+
+  const txHash = await storageHubClient.updateBucketPrivacy(
+    bucketId,
+    isPrivate,
+    gasTxOpts
+  );
+
+  const receipt = await publicClient
+    .waitForTransactionReceipt({ hash: txHash });
+
+  if (receipt.status !== 'success') {
+    throw new Error('Bucket privacy update failed');
+  }
+
+  // Confirm the new state from chain storage
+  const bucket = await polkadotApi.query.providers.buckets(bucketId);
+  if (bucket.unwrap().toHuman().private !== isPrivate) {
+    throw new Error('Bucket privacy not updated on chain');
+  }
+
+  return receipt;
+}`,
+  },
+  {
+    id: 'requestMoveBucket',
+    title: 'Move Bucket',
+    code: `// src/operations/bucketOperations.ts
+
+// MSPs and their value propositions come from the providers pallet
+const msps = await polkadotApi.query.providers
+  .mainStorageProviders.entries();
+const valueProps = await polkadotApi.query.providers
+  .mainStorageProviderIdsToValuePropositions.entries(newMspId);
+
+export async function requestMoveBucket(
+  bucketId: string,
+  newMspId: string,
+  newValuePropId: string
+): Promise<TransactionReceipt> {
+  const gasTxOpts = await buildGasTxOpts({
+    functionName: 'requestMoveBucket',
+    args: [bucketId, newMspId, newValuePropId],
+  });
+
+  const txHash = await storageHubClient.requestMoveBucket(
+    bucketId,
+    newMspId,
+    newValuePropId,
+    gasTxOpts
+  );
+
+  return publicClient.waitForTransactionReceipt({ hash: txHash });
+}
+
+// The request stays pending until the new MSP answers or it expires
+export async function waitForBucketMove(
+  bucketId: string,
+  newMspId: string
+): Promise<'accepted' | 'rejected'> {
+  return waitForChainCondition(polkadotApi, {
+    check: async () => {
+      const pending = await polkadotApi.query.fileSystem
+        .pendingMoveBucketRequests(bucketId);
+      if (!pending.isEmpty) return undefined;
+
+      const bucket = await polkadotApi.query.providers.buckets(bucketId);
+      return bucket.unwrap().toHuman().mspId === newMspId
+        ? 'accepted'
+        : 'rejected';
+    },
+    isRelevant: (event) =>
+      event.section === 'fileSystem' &&
+      event.method.startsWith('MoveBucket'),
+  });
+}`,
+  },
+  {
+    id: 'emptyAndDeleteBucket',
+    title: 'Delete Bucket and Contents',
+    code: `// src/operations/bucketOperations.ts
+
+export async function emptyAndDeleteBucket(
+  bucketId: string,
+  onProgress?: (progress: BucketEmptyingProgress) => void
+): Promise<void> {
+  // Flatten the MSP file tree into file keys and paths
+  const files = await listBucketFiles(bucketId);
+
+  // One transaction per file plus the bucket deletion:
+  // check the whole batch can be paid before signing any
+  const gasTxOpts = await buildGasTxOpts();
+  await ensureSufficientBalance(
+    getMaxTransactionCost(gasTxOpts) * BigInt(files.length + 1),
+    'delete every file and the bucket'
+  );
+
+  const failures = [];
+  for (const file of files) {
+    try {
+      await requestDeleteFile(bucketId, file.fileKey);
+    } catch (error) {
+      failures.push({ ...file, error: error.message });
+    }
+  }
+
+  // Keep the bucket if any file is left behind
+  if (failures.length > 0) {
+    throw new Error(\`\${failures.length} files could not be deleted\`);
+  }
+
+  // The MSP removes files once it has submitted its proofs
+  await waitForBackendBucketEmpty(bucketId);
+
+  await deleteBucket(bucketId);
+  await finishBucketDeletion(bucketId);
 }`,
   },
 ];
@@ -212,14 +368,21 @@ export const fileSnippets: CodeSnippet[] = [
 
 export async function uploadFile(
   bucketId: string,
-  file: File
+  file: File,
+  options: UploadFileOptions = {}
 ): Promise<{ fileKey: string; uploadReceipt: unknown }> {
-  const fileBuffer = await file.arrayBuffer();
-
-  // FileManager handles chunking and hashing
+  // location is the path inside the bucket, e.g. "photos/2024/cat.png"
+  const {
+    location = file.name,
+    replication = DEFAULT_REPLICATION,
+    signal,
+  } = options;
+
+  // FileManager handles chunking and hashing, reading the
+  // file as a stream so memory use stays bounded
   const fileManager = new FileManager({
     size: file.size,
-    stream: () => new ReadableStream({ ... }),
+    stream: () => file.stream(),
   });
 
   // Compute Merkle root hash — uniquely identifies the file content
@@ -233,23 +396,59 @@ export async function uploadFile(
 
   // Register file on-chain and assign MSP to store it
   const txHash = await storageHubClient.issueStorageRequest(
-    bucketId, file.name, fingerprint.toHex(),
+    bucketId, location, fingerprint.toHex(),
     BigInt(file.size), mspId, peerIds,
-    ReplicationLevel.Custom, 1, gasTxOpts
+    // Basic..UltraHighSecurity, or Custom with an explicit replica count
+    replication.level, replication.replicas, gasTxOpts
   );
 
-  // Derive unique file key from owner + bucket + filename
+  // Derive unique file key from owner + bucket + location
   const fileKey = await fileManager.computeFileKey(
-    owner, bucketIdH256, file.name
+    owner, bucketIdH256, location
   );
 
-  // Upload file data to MSP (verified against on-chain fingerprint)
-  const uploadReceipt = await mspClient.files.uploadFile(
-    bucketId, fileKey.toHex(), fileBlob,
-    address, file.name
+  // Upload file data to MSP (verified against on-chain fingerprint).
+  // The File is sent as-is so the browser streams it from disk.
+  const fileMetadata = new FileMetadata(
+    hexToBytes(address), hexToBytes(bucketId),
+    new TextEncoder().encode(location),
+    BigInt(file.size), fingerprint.toU8a()
+  );
+  const uploadReceipt = await uploadFileStream(
+    bucketId, fileKey.toHex(), file, fileMetadata.encode(), signal
   );
 
   return { fileKey: fileKey.toHex(), uploadReceipt };
+}`,
+  },
+  {
+    id: 'revokeStorageRequest',
+    title: 'Cancel Upload',
+    code: `// src/operations/fileOperations.ts
+
+export async function revokeStorageRequest(
+  fileKey: string
+): Promise<void> {
+  const storageHubClient = getStorageHubClient();
+  const publicClient = getPublicClient();
+
+  const gasTxOpts = await buildGasTxOpts({
+    functionName: 'revokeStorageRequest',
+    args: [fileKey],
+  });
+
+  // Revoke the pending storage request so it doesn't
+  // linger on-chain until it expires
+  const txHash = await storageHubClient.revokeStorageRequest(
+    fileKey, gasTxOpts
+  );
+
+  const receipt = await publicClient
+    .waitForTransactionReceipt({ hash: txHash });
+
+  if (receipt.status !== 'success') {
+    throw new Error('Revoking storage request failed');
+  }
 }`,
   },
   {
@@ -291,7 +490,7 @@ export async function requestDeleteFile(
   bucketId: string,
   fileKey: string
 ): Promise<boolean> {
-  const storageHubClient = getStorageHubClient();
+  const walletClient = getWalletClient();
   const publicClient = getPublicClient();
   const mspClient = getMspClient();
 
@@ -301,14 +500,48 @@ export async function requestDeleteFile(
     fileKey
   );
 
-  const gasTxOpts = await buildGasTxOpts();
-
-  // Submit deletion request on-chain
-  const txHash = await storageHubClient.requestDeleteFile(
-    fileInfo,
-    gasTxOpts
+  // Check the balance before the wallet is asked to sign
+  await ensureSufficientBalance(
+    getMaxTransactionCost(await buildGasTxOpts()),
+    'delete a file'
   );
 
+  // Sign the deletion intention (file key + delete
+  // operation) so the exact call can be estimated
+  const signature = await walletClient.signMessage({
+    account: walletClient.account,
+    message: {
+      raw: new Uint8Array([...hexToBytes(fileInfo.fileKey), 0]),
+    },
+  });
+  const args = [
+    { fileKey: fileInfo.fileKey, operation: 0 },
+    signature,
+    fileInfo.bucketId,
+    stringToHex(fileInfo.location),
+    fileInfo.size,
+    fileInfo.fingerprint,
+  ] as const;
+
+  const gasTxOpts = await buildGasTxOpts({
+    functionName: 'requestDeleteFile',
+    args,
+  });
+
+  // Send the signed call directly; the SDK's
+  // requestDeleteFile would sign the intention again
+  const txHash = await walletClient.writeContract({
+    address: getActiveNetwork().filesystemContractAddress,
+    abi: filesystemAbi,
+    functionName: 'requestDeleteFile',
+    args,
+    account: walletClient.account,
+    chain: walletClient.chain,
+    gas: gasTxOpts.gas,
+    maxFeePerGas: gasTxOpts.maxFeePerGas,
+    maxPriorityFeePerGas: gasTxOpts.maxPriorityFeePerGas,
+  });
+
   const receipt = await publicClient
     .waitForTransactionReceipt({ hash: txHash });
 
@@ -351,3 +584,197 @@ export async function downloadFile(
 }`,
   },
 ];
+
+export const settingsSnippets: CodeSnippet[] = [
+  {
+    id: 'validateNetwork',
+    title: 'Validate Network',
+    code: `// src/services/networkService.ts
+
+export async function validateNetwork(
+  network: NetworkConfig
+): Promise<void> {
+  // Probe the RPC endpoint and compare the reported chain ID
+  const publicClient = createPublicClient({
+    transport: http(network.rpcUrl),
+  });
+  const rpcChainId = await publicClient.getChainId();
+
+  if (rpcChainId !== network.id) {
+    throw new Error(
+      \`Chain ID mismatch: RPC reports \${rpcChainId}\`
+    );
+  }
+
+  // Probe the MSP backend health endpoint
+  const mspClient = await MspClient.connect({
+    baseUrl: network.mspUrl,
+  });
+  await mspClient.info.getHealth();
+}
+
+// Saved networks are persisted to localStorage
+export function saveCustomNetwork(
+  networkKey: string,
+  network: NetworkConfig
+) {
+  customNetworks = { ...customNetworks, [networkKey]: network };
+  localStorage.setItem(
+    CUSTOM_NETWORKS_KEY,
+    JSON.stringify(customNetworks)
+  );
+}`,
+  },
+];
+
+export const transactionSnippets: CodeSnippet[] = [
+  {
+    id: 'recordTransaction',
+    title: 'Record Transaction',
+    code: `// src/operations/transactionOperations.ts
+
+export async function waitForRecordedTransaction(
+  hash: \`0x\${string}\`,
+  operation: TransactionOperation,
+  subject: TransactionSubject = {}
+): Promise<TransactionReceipt> {
+  const publicClient = getPublicClient();
+
+  // Persist the transaction as pending as soon as it's submitted
+  recordTransaction({
+    hash,
+    networkKey: getActiveNetworkKey(),
+    from: getConnectedAddress() ?? '',
+    operation,
+    ...subject,
+    status: 'pending',
+    timestamp: Date.now(),
+  });
+
+  const receipt = await publicClient
+    .waitForTransactionReceipt({ hash });
+
+  // Keep the outcome, the fee actually paid and the
+  // precompile events the transaction emitted
+  updateTransaction(hash, {
+    status: receipt.status === 'success' ? 'success' : 'reverted',
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+    fee: (receipt.gasUsed * receipt.effectiveGasPrice).toString(),
+    blockNumber: receipt.blockNumber.toString(),
+    logs: decodeFilesystemLogs(receipt),
+  });
+
+  return receipt;
+}`,
+  },
+  {
+    id: 'decodeLogs',
+    title: 'Decode Precompile Logs',
+    code: `// src/operations/transactionOperations.ts
+
+export function decodeFilesystemLogs(
+  receipt: TransactionReceipt
+): DecodedTransactionLog[] {
+  const { filesystemContractAddress } = getActiveNetwork();
+  const decoded: DecodedTransactionLog[] = [];
+
+  for (const log of receipt.logs) {
+    // Only logs emitted by the filesystem precompile
+    if (!isAddressEqual(log.address, filesystemContractAddress)) continue;
+
+    try {
+      // e.g. BucketCreated, StorageRequestIssued, BucketDeleted
+      const { eventName, args } = decodeEventLog({
+        abi: filesystemAbi,
+        data: log.data,
+        topics: log.topics,
+      });
+      if (!eventName) continue;
+
+      decoded.push({
+        eventName,
+        args: Object.fromEntries(
+          Object.entries(args ?? {})
+            .map(([name, value]) => [name, String(value)])
+        ),
+      });
+    } catch {
+      // Not a filesystem event we know about, skip it
+    }
+  }
+
+  return decoded;
+}`,
+  },
+];
+
+export const providerSnippets: CodeSnippet[] = [
+  {
+    id: 'listProviders',
+    title: 'List Storage Providers',
+    code: `// src/operations/providerOperations.ts
+
+export async function getMainStorageProviders(): Promise<MainStorageProvider[]> {
+  const polkadotApi = getPolkadotApi();
+  const entries = await polkadotApi.query.providers
+    .mainStorageProviders.entries();
+
+  return Promise.all(
+    entries.map(async ([key, value]) => {
+      const mspId = key.args[0].toString();
+      const msp = value.toJSON();
+      return {
+        mspId,
+        ownerAccount: msp.ownerAccount,
+        capacity: BigInt(msp.capacity),
+        capacityUsed: BigInt(msp.capacityUsed),
+        // Multiaddresses are stored as raw bytes
+        multiaddresses: msp.multiaddresses.map(hexToString),
+        // Exposed by the providers runtime API
+        stake: await polkadotApi.call.storageProvidersApi
+          .getStake(mspId),
+        valueProps: await polkadotApi.query.providers
+          .mainStorageProviderIdsToValuePropositions.entries(mspId),
+      };
+    })
+  );
+}
+
+// BSPs are listed the same way
+const bsps = await polkadotApi.query.providers
+  .backupStorageProviders.entries();`,
+  },
+  {
+    id: 'checkReplicas',
+    title: 'Check Replicas',
+    code: `// src/operations/fileOperations.ts
+
+export async function getBspConfirmationStatus(
+  fileKey: string
+): Promise<BspConfirmationStatus | null> {
+  const polkadotApi = getPolkadotApi();
+
+  // Open storage requests track which BSPs volunteered
+  const req = await polkadotApi.query.fileSystem.storageRequests(fileKey);
+  if (req.isNone) {
+    return null;
+  }
+
+  const data = req.unwrap();
+  const bspEntries = await polkadotApi.query.fileSystem
+    .storageRequestBsps.entries(fileKey);
+
+  return {
+    required: data.bspsRequired.toNumber(),
+    confirmed: data.bspsConfirmed.toNumber(),
+    volunteered: data.bspsVolunteered.toNumber(),
+    bsps: bspEntries.map(([key, value]) => ({
+      bspId: key.args[1].toHex(),
+      confirmed: value.unwrap().confirmed.isTrue,
+    })),
+    fulfilled: false,
+  };
+}`,
+  },
+];
@@ -0,0 +1,12 @@
+// Well-known development accounts of local StorageHub (Frontier) dev nodes.
+// NEVER use these on a public network: their keys are public.
+export const DEV_MNEMONIC = 'bottom drive obey lake curtain smoke basket hold race lonely fit walk';
+
+export const DEV_ACCOUNTS = [
+  { name: 'Alith', addressIndex: 0 },
+  { name: 'Baltathar', addressIndex: 1 },
+  { name: 'Charleth', addressIndex: 2 },
+  { name: 'Dorothy', addressIndex: 3 },
+  { name: 'Ethan', addressIndex: 4 },
+  { name: 'Faith', addressIndex: 5 },
+];
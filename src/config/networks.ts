@@ -1,4 +1,21 @@
-export const NETWORKS = {
+export interface NetworkConfig {
+  id: number;
+  idHex: string;
+  name: string;
+  rpcUrl: string;
+  wsUrl: string;
+  mspUrl: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  filesystemContractAddress: `0x${string}`;
+  // Development networks allow connecting with a local private key or mnemonic instead of a browser wallet
+  isDevelopment?: boolean;
+}
+
+export const DEFAULT_FILESYSTEM_CONTRACT_ADDRESS = '0x0000000000000000000000000000000000000404';
+
+export const DEFAULT_NETWORK_KEY = 'testnet';
+
+export const NETWORKS: Record<string, NetworkConfig> = {
   testnet: {
     id: 55931,
     idHex: '0xda7b',
@@ -7,5 +24,47 @@ export const NETWORKS = {
     wsUrl: 'wss://services.datahaven-testnet.network/testnet',
     mspUrl: 'https://deo-dh-backend.testnet.datahaven-infra.network/',
     nativeCurrency: { name: 'Mock', symbol: 'MOCK', decimals: 18 },
+    filesystemContractAddress: DEFAULT_FILESYSTEM_CONTRACT_ADDRESS,
+  },
+  local: {
+    id: 181222,
+    idHex: '0x2c3e6',
+    name: 'Local Dev Node',
+    rpcUrl: 'http://127.0.0.1:9888',
+    wsUrl: 'ws://127.0.0.1:9888',
+    mspUrl: 'http://127.0.0.1:8080/',
+    nativeCurrency: { name: 'StorageHub', symbol: 'SH', decimals: 18 },
+    filesystemContractAddress: DEFAULT_FILESYSTEM_CONTRACT_ADDRESS,
+    isDevelopment: true,
   },
 };
+
+// Optional user-defined network, configured through VITE_CUSTOM_NETWORK_* variables (e.g. in .env.local)
+function loadEnvNetwork(): NetworkConfig | null {
+  const env = import.meta.env;
+  if (!env.VITE_CUSTOM_NETWORK_RPC_URL || !env.VITE_CUSTOM_NETWORK_CHAIN_ID) {
+    return null;
+  }
+
+  const id = Number(env.VITE_CUSTOM_NETWORK_CHAIN_ID);
+  return {
+    id,
+    idHex: `0x${id.toString(16)}`,
+    name: env.VITE_CUSTOM_NETWORK_NAME || 'Custom Network',
+    rpcUrl: env.VITE_CUSTOM_NETWORK_RPC_URL,
+    wsUrl: env.VITE_CUSTOM_NETWORK_WS_URL || env.VITE_CUSTOM_NETWORK_RPC_URL.replace(/^http/, 'ws'),
+    mspUrl: env.VITE_CUSTOM_NETWORK_MSP_URL || '',
+    nativeCurrency: {
+      name: env.VITE_CUSTOM_NETWORK_CURRENCY_NAME || 'Unit',
+      symbol: env.VITE_CUSTOM_NETWORK_CURRENCY_SYMBOL || 'UNIT',
+      decimals: Number(env.VITE_CUSTOM_NETWORK_CURRENCY_DECIMALS || 18),
+    },
+    filesystemContractAddress: env.VITE_CUSTOM_NETWORK_FILESYSTEM_ADDRESS || DEFAULT_FILESYSTEM_CONTRACT_ADDRESS,
+    isDevelopment: env.VITE_CUSTOM_NETWORK_IS_DEVELOPMENT === 'true',
+  };
+}
+
+const envNetwork = loadEnvNetwork();
+if (envNetwork) {
+  NETWORKS.custom = envNetwork;
+}
@@ -3,13 +3,29 @@ import type { ReactNode } from 'react';
 import { initWasm } from '@storagehub-sdk/core';
 import {
   connectWallet as connectWalletService,
+  connectDevSigner as connectDevSignerService,
+  reconnectWallet,
+  isDevSignerConnected,
   disconnectWallet,
   getConnectedAddress,
   initPolkadotApi,
   restoreWalletConnection,
+  resetClients,
+  rebuildWalletClients,
+  isActiveChainId,
+  switchWalletToActiveNetwork,
+  subscribeToWalletEvents,
 } from '../services/clientService';
+import {
+  getNetworks,
+  getActiveNetworkKey,
+  setActiveNetwork,
+  saveCustomNetwork,
+  deleteCustomNetwork,
+} from '../services/networkService';
 import {
   connectToMsp,
+  getMspUrl,
   getMspInfo,
   getMspHealth,
   authenticateUser as authUser,
@@ -19,15 +35,26 @@ import {
   clearSession,
   isAuthError,
 } from '../services/mspService';
-import type { AppState, InfoResponse, UserInfo, HealthStatus } from '../types';
+import { refreshBalance, clearBalance } from '../services/balanceService';
+import { resumePendingTransactions } from '../operations';
+import type { AppState, InfoResponse, UserInfo, HealthStatus, MspSelection, RecoveredTransaction } from '../types';
+import type { NetworkConfig } from '../config/networks';
 
 export interface AppContextType extends AppState {
-  connectWallet: () => Promise<void>;
+  connectWallet: (rdns?: string | null) => Promise<void>;
+  connectDevSigner: (secret: string, addressIndex?: number) => Promise<void>;
   disconnect: () => void;
-  connectMsp: () => Promise<void>;
+  networks: Record<string, NetworkConfig>;
+  switchNetwork: (networkKey: string) => Promise<void>;
+  switchWalletNetwork: () => Promise<void>;
+  saveNetwork: (networkKey: string, network: NetworkConfig) => Promise<void>;
+  deleteNetwork: (networkKey: string) => void;
+  connectMsp: (selection?: MspSelection) => Promise<void>;
   authenticateUser: () => Promise<void>;
   getMspHealthStatus: () => Promise<HealthStatus>;
   handleAuthError: (error: unknown) => boolean;
+  recoveredTransactions: RecoveredTransaction[];
+  dismissRecoveredTransaction: (hash: string) => void;
   isLoading: boolean;
   error: string | null;
   clearError: () => void;
@@ -39,19 +66,37 @@ let wasmInitialized = false;
 
 export function AppProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState<AppState>({
+    networkKey: getActiveNetworkKey(),
     isWalletConnected: false,
+    isWrongNetwork: false,
+    isDevSigner: false,
     isMspConnected: false,
     isAuthenticated: false,
     address: null,
     mspInfo: null,
+    mspUrl: null,
     userProfile: null,
   });
+  const [networks, setNetworks] = useState<Record<string, NetworkConfig>>(getNetworks);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [recoveredTransactions, setRecoveredTransactions] = useState<RecoveredTransaction[]>([]);
 
   const clearError = useCallback(() => setError(null), []);
 
-  const connectWallet = useCallback(async () => {
+  const dismissRecoveredTransaction = useCallback((hash: string) => {
+    setRecoveredTransactions((prev) => prev.filter((tx) => tx.hash !== hash));
+  }, []);
+
+  // Finish bucket transactions that were still pending when the page was reloaded.
+  // Only needs a wallet and the chain, so it runs on every connect, signed in or not.
+  const resumeTransactions = useCallback(() => {
+    resumePendingTransactions((update) =>
+      setRecoveredTransactions((prev) => [...prev.filter((tx) => tx.hash !== update.hash), update])
+    );
+  }, []);
+
+  const connectWallet = useCallback(async (rdns?: string | null) => {
     setIsLoading(true);
     setError(null);
     try {
@@ -60,14 +105,17 @@ export function AppProvider({ children }: { children: ReactNode }) {
         wasmInitialized = true;
       }
 
-      const address = await connectWalletService();
+      const address = await connectWalletService(rdns);
       await initPolkadotApi();
 
       setState((prev) => ({
         ...prev,
         isWalletConnected: true,
+        isWrongNetwork: false,
+        isDevSigner: false,
         address,
       }));
+      resumeTransactions();
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to connect wallet';
       setError(message);
@@ -75,32 +123,191 @@ export function AppProvider({ children }: { children: ReactNode }) {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [resumeTransactions]);
+
+  const connectDevSigner = useCallback(async (secret: string, addressIndex?: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      if (!wasmInitialized) {
+        await initWasm();
+        wasmInitialized = true;
+      }
+
+      const address = connectDevSignerService(secret, addressIndex);
+      await initPolkadotApi();
+
+      setState((prev) => ({
+        ...prev,
+        isWalletConnected: true,
+        isWrongNetwork: false,
+        isDevSigner: true,
+        address,
+      }));
+      resumeTransactions();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to connect dev signer';
+      setError(message);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [resumeTransactions]);
 
   const disconnect = useCallback(() => {
     disconnectWallet();
-    disconnectMsp();
-    setState({
+    // Disconnecting the wallet logs out of every MSP
+    disconnectMsp(true);
+    setState((prev) => ({
+      networkKey: prev.networkKey,
       isWalletConnected: false,
+      isWrongNetwork: false,
+      isDevSigner: false,
       isMspConnected: false,
       isAuthenticated: false,
       address: null,
       mspInfo: null,
+      mspUrl: null,
       userProfile: null,
-    });
+    }));
   }, []);
 
-  const connectMsp = useCallback(async () => {
+  // Tear down all clients and rebuild them against the given network
+  const activateNetwork = useCallback(async (networkKey: string, shouldReconnect: boolean) => {
     setIsLoading(true);
     setError(null);
     try {
-      await connectToMsp();
+      disconnectMsp();
+      await resetClients();
+      setActiveNetwork(networkKey);
+
+      setState({
+        networkKey,
+        isWalletConnected: false,
+        isWrongNetwork: false,
+        isDevSigner: false,
+        isMspConnected: false,
+        isAuthenticated: false,
+        address: null,
+        mspInfo: null,
+        mspUrl: null,
+        userProfile: null,
+      });
+
+      if (shouldReconnect) {
+        const address = await reconnectWallet();
+        await initPolkadotApi();
+
+        setState((prev) => ({
+          ...prev,
+          isWalletConnected: true,
+          isWrongNetwork: false,
+          isDevSigner: isDevSignerConnected(),
+          address,
+        }));
+        resumeTransactions();
+      }
+    } catch (err) {
+      // Leave the wallet fully disconnected if it cannot be rebuilt on the new network
+      disconnectWallet();
+      const message = err instanceof Error ? err.message : 'Failed to switch network';
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [resumeTransactions]);
+
+  const switchNetwork = useCallback(
+    async (networkKey: string) => {
+      if (networkKey === state.networkKey) return;
+      await activateNetwork(networkKey, state.isWalletConnected);
+    },
+    [activateNetwork, state.networkKey, state.isWalletConnected]
+  );
+
+  const saveNetwork = useCallback(
+    async (networkKey: string, network: NetworkConfig) => {
+      saveCustomNetwork(networkKey, network);
+      setNetworks(getNetworks());
+
+      // Editing the active network invalidates every client built from it
+      if (networkKey === state.networkKey) {
+        await activateNetwork(networkKey, state.isWalletConnected);
+      }
+    },
+    [activateNetwork, state.networkKey, state.isWalletConnected]
+  );
+
+  const deleteNetwork = useCallback((networkKey: string) => {
+    deleteCustomNetwork(networkKey);
+    setNetworks(getNetworks());
+  }, []);
+
+  // Ask the wallet to move back to the active network after the user switched chains in the extension
+  const switchWalletNetwork = useCallback(async () => {
+    setError(null);
+    try {
+      await switchWalletToActiveNetwork();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to switch wallet network';
+      setError(message);
+    }
+  }, []);
+
+  // Keep clients and session in sync with changes made in the wallet extension
+  useEffect(() => {
+    if (!state.isWalletConnected) return;
+
+    return subscribeToWalletEvents({
+      onAccountsChanged: (accounts) => {
+        if (accounts.length === 0) {
+          // Wallet locked or the dapp was disconnected from the extension
+          disconnect();
+          return;
+        }
+
+        const currentAddress = getConnectedAddress();
+        if (currentAddress && accounts[0].toLowerCase() === currentAddress.toLowerCase()) {
+          return;
+        }
+
+        // SIWE sessions are kept per address, so use the new address's session if it has one
+        const address = rebuildWalletClients(accounts[0]);
+        setState((prev) => ({
+          ...prev,
+          address,
+          isAuthenticated: checkAuth(),
+          userProfile: getUserProfile(),
+        }));
+      },
+      onChainChanged: (chainId) => {
+        const isWrongNetwork = !isActiveChainId(chainId);
+        if (!isWrongNetwork) {
+          rebuildWalletClients();
+        }
+        setState((prev) => ({ ...prev, isWrongNetwork }));
+      },
+      onDisconnect: () => {
+        disconnect();
+      },
+    });
+  }, [state.isWalletConnected, disconnect]);
+
+  const connectMsp = useCallback(async (selection?: MspSelection) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await connectToMsp(selection);
       const mspInfo: InfoResponse = await getMspInfo();
 
+      // Reuse an earlier SIWE session with this MSP, if there is one
       setState((prev) => ({
         ...prev,
         isMspConnected: true,
         mspInfo,
+        mspUrl: getMspUrl(),
+        isAuthenticated: checkAuth(),
+        userProfile: getUserProfile(),
       }));
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to connect to MSP';
@@ -155,6 +362,15 @@ export function AppProvider({ children }: { children: ReactNode }) {
     return false;
   }, []);
 
+  // Load the native balance whenever the connected account or network changes
+  useEffect(() => {
+    if (state.address) {
+      refreshBalance().catch(() => clearBalance());
+    } else {
+      clearBalance();
+    }
+  }, [state.address, state.networkKey]);
+
   // Restore session from storage on mount
   useEffect(() => {
     const restoreSession = async () => {
@@ -184,21 +400,29 @@ export function AppProvider({ children }: { children: ReactNode }) {
           await connectToMsp();
           const mspInfo: InfoResponse = await getMspInfo();
 
-          setState({
+          setState((prev) => ({
+            ...prev,
             isWalletConnected: true,
+            isWrongNetwork: false,
+            isDevSigner: false,
             isMspConnected: true,
             isAuthenticated: true,
             address: restoredAddress,
             mspInfo,
+            mspUrl: getMspUrl(),
             userProfile: profile,
-          });
+          }));
         } else {
           setState((prev) => ({
             ...prev,
             isWalletConnected: true,
+            isWrongNetwork: false,
+            isDevSigner: false,
             address: restoredAddress,
           }));
         }
+
+        resumeTransactions();
       } catch {
         // Failed to restore session, start fresh
       } finally {
@@ -207,16 +431,24 @@ export function AppProvider({ children }: { children: ReactNode }) {
     };
 
     restoreSession();
-  }, []);
+  }, [resumeTransactions]);
 
   const value: AppContextType = {
     ...state,
     connectWallet,
+    connectDevSigner,
     disconnect,
+    networks,
+    switchNetwork,
+    switchWalletNetwork,
+    saveNetwork,
+    deleteNetwork,
     connectMsp,
     authenticateUser,
     getMspHealthStatus,
     handleAuthError,
+    recoveredTransactions,
+    dismissRecoveredTransaction,
     isLoading,
     error,
     clearError,
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getBalance, subscribeToBalance } from '../services/balanceService';
+
+export function useBalance(): bigint | null {
+  return useSyncExternalStore(subscribeToBalance, getBalance);
+}
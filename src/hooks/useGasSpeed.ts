@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getGasSpeed, subscribeToGasSpeed } from '../services/gasService';
+import type { GasSpeed } from '../types';
+
+export function useGasSpeed(): GasSpeed {
+  return useSyncExternalStore(subscribeToGasSpeed, getGasSpeed);
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getTransactions, subscribeToTransactions } from '../services/transactionHistoryService';
+import type { TransactionRecord } from '../types';
+
+export function useTransactionHistory(): TransactionRecord[] {
+  return useSyncExternalStore(subscribeToTransactions, getTransactions);
+}
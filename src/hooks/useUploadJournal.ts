@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getUploadJournal, subscribeToUploadJournal } from '../services/uploadJournalService';
+import type { UploadJournalEntry } from '../types';
+
+export function useUploadJournal(): UploadJournalEntry[] {
+  return useSyncExternalStore(subscribeToUploadJournal, getUploadJournal);
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getUploadQueue, subscribeToUploadQueue } from '../operations/uploadQueue';
+import type { UploadQueueItem } from '../types';
+
+export function useUploadQueue(): UploadQueueItem[] {
+  return useSyncExternalStore(subscribeToUploadQueue, getUploadQueue);
+}
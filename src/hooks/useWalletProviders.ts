@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getDiscoveredWallets, subscribeToWallets } from '../services/walletDiscoveryService';
+import type { WalletProviderDetail } from '../types';
+
+export function useWalletProviders(): WalletProviderDetail[] {
+  return useSyncExternalStore(subscribeToWallets, getDiscoveredWallets);
+}
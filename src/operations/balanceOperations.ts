@@ -0,0 +1,51 @@
+import type { EvmWriteOptions } from '@storagehub-sdk/core';
+import type { Codec } from '@polkadot/types/types';
+import { getPolkadotApi } from '../services/clientService';
+import { getActiveNetwork } from '../services/networkService';
+import { refreshBalance } from '../services/balanceService';
+import { formatTokenAmount } from '../utils/formatting';
+
+// Gas assumed for calls that can't be estimated up front, because the SDK estimates them itself
+// or their arguments (e.g. a signed intention) don't exist yet
+export const SDK_ESTIMATED_GAS_ALLOWANCE = BigInt(1500000);
+
+// Runtime constants holding the deposit each kind of call reserves, first match wins
+const DEPOSIT_CONSTANTS: Record<'bucket' | 'storageRequest', [string, string][]> = {
+  bucket: [['providers', 'bucketDeposit']],
+  storageRequest: [
+    ['fileSystem', 'baseStorageRequestCreationDeposit'],
+    ['fileSystem', 'storageRequestCreationDeposit'],
+  ],
+};
+
+// Read the deposit reserved when creating a bucket or issuing a storage request, in wei.
+// Runtimes without the constant don't reserve a deposit.
+export function getStorageDeposit(kind: 'bucket' | 'storageRequest'): bigint {
+  const consts = getPolkadotApi().consts as unknown as Record<string, Record<string, Codec | undefined> | undefined>;
+
+  for (const [section, name] of DEPOSIT_CONSTANTS[kind]) {
+    const value = consts[section]?.[name];
+    if (value) {
+      return BigInt(value.toString());
+    }
+  }
+
+  return BigInt(0);
+}
+
+// Upper bound of what a transaction can cost with the given gas options
+export function getMaxTransactionCost(gasTxOpts: EvmWriteOptions): bigint {
+  return (gasTxOpts.gas ?? SDK_ESTIMATED_GAS_ALLOWANCE) * (gasTxOpts.maxFeePerGas ?? BigInt(0));
+}
+
+// Fail before sending a transaction the connected account can't pay for
+export async function ensureSufficientBalance(required: bigint, action: string): Promise<void> {
+  const balance = await refreshBalance();
+  if (balance === null || balance >= required) return;
+
+  const { symbol, decimals } = getActiveNetwork().nativeCurrency;
+  throw new Error(
+    `Insufficient balance to ${action}: ${formatTokenAmount(balance, decimals, symbol)} available, ` +
+      `up to ${formatTokenAmount(required, decimals, symbol)} needed for fees and deposits`
+  );
+}
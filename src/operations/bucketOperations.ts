@@ -1,32 +1,145 @@
 import type { Bucket } from '@storagehub-sdk/msp-client';
+import type { Codec } from '@polkadot/types/types';
 import {
   getStorageHubClient,
   getConnectedAddress,
-  getPublicClient,
   getPolkadotApi,
-  buildGasTxOpts,
 } from '../services/clientService';
-import { getMspInfo, getValueProps, getMspClient } from '../services/mspService';
-import type { BucketInfo } from '../types';
+import { buildGasTxOpts, estimateGasCosts, estimateGasCostsForLimit } from '../services/gasService';
+import { getMspInfo, getValueProps, getMspClient, isAuthenticated, isNotFoundError } from '../services/mspService';
+import { pollUntil } from '../utils/polling';
+import { isBucketEvent, waitForChainCondition } from '../utils/chainEvents';
+import {
+  findPendingTransaction,
+  getPendingTransactions,
+  removePendingTransaction,
+  savePendingTransaction,
+  updatePendingTransactionStep,
+} from '../services/pendingTransactionService';
+import { getActiveNetworkKey } from '../services/networkService';
+import { waitForRecordedTransaction, waitForTransactionOutcome } from './transactionOperations';
+import {
+  SDK_ESTIMATED_GAS_ALLOWANCE,
+  ensureSufficientBalance,
+  getMaxTransactionCost,
+  getStorageDeposit,
+} from './balanceOperations';
+import { listBucketFiles, requestDeleteFile } from './fileOperations';
+import type {
+  BatchGasEstimate,
+  BucketEmptyingProgress,
+  BucketInfo,
+  BucketMoveOutcome,
+  BucketNamePreview,
+  FilesystemCall,
+  GasEstimate,
+  PendingTransaction,
+  RecoveredTransaction,
+} from '../types';
+import { stringToHex } from 'viem';
 import type { TransactionReceipt } from 'viem';
 
+// Precompile call for createBucket, used for gas estimation
+function createBucketCall(
+  mspId: string,
+  bucketName: string,
+  isPrivate: boolean,
+  valuePropId: string
+): FilesystemCall {
+  return { functionName: 'createBucket', args: [mspId, stringToHex(bucketName), isPrivate, valuePropId] };
+}
+
+// Precompile calls for the other bucket transactions, shared by their estimates and the transactions themselves
+function deleteBucketCall(bucketId: string): FilesystemCall {
+  return { functionName: 'deleteBucket', args: [bucketId] };
+}
+
+function updateBucketPrivacyCall(bucketId: string, isPrivate: boolean): FilesystemCall {
+  return { functionName: 'updateBucketPrivacy', args: [bucketId, isPrivate] };
+}
+
+function requestMoveBucketCall(bucketId: string, newMspId: string, newValuePropId: string): FilesystemCall {
+  return { functionName: 'requestMoveBucket', args: [bucketId, newMspId, newValuePropId] };
+}
+
+// Used when the runtime doesn't expose its bucket name limit
+const DEFAULT_BUCKET_NAME_LIMIT = 100;
+
+// Read the maximum bucket name length in bytes from the runtime constants
+export function getBucketNameLimit(): number {
+  const consts = getPolkadotApi().consts as unknown as Record<string, Record<string, Codec | undefined> | undefined>;
+  const limit = consts.providers?.bucketNameLimit;
+  return limit ? Number(limit.toString()) : DEFAULT_BUCKET_NAME_LIMIT;
+}
+
+// Check a bucket name against the on-chain limits, returning why it's invalid or null
+export function validateBucketName(bucketName: string): string | null {
+  if (!bucketName) {
+    return 'Bucket name is required';
+  }
+
+  const limit = getBucketNameLimit();
+  if (new TextEncoder().encode(bucketName).length > limit) {
+    return `Bucket name must be at most ${limit} bytes`;
+  }
+
+  return null;
+}
+
+// Derive the bucket ID a name maps to for the connected address and check whether it's taken
+export async function previewBucketName(bucketName: string): Promise<BucketNamePreview> {
+  const storageHubClient = getStorageHubClient();
+  const address = getConnectedAddress();
+  const polkadotApi = getPolkadotApi();
+
+  if (!address) {
+    throw new Error('Wallet not connected');
+  }
+
+  const bucketId = (await storageHubClient.deriveBucketId(address, bucketName)) as string;
+  const bucket = await polkadotApi.query.providers.buckets(bucketId);
+
+  return { bucketName, bucketId, exists: !bucket.isEmpty };
+}
+
+// Estimate the gas and fee presets for creating a bucket
+export async function estimateCreateBucketGas(
+  bucketName: string,
+  isPrivate: boolean = false,
+  valuePropId?: string
+): Promise<GasEstimate> {
+  const { mspId } = await getMspInfo();
+  const resolvedValuePropId = await getValueProps(valuePropId);
+
+  const estimate = await estimateGasCosts(createBucketCall(mspId, bucketName, isPrivate, resolvedValuePropId));
+  return { ...estimate, deposit: getStorageDeposit('bucket') };
+}
+
+// Journaled transactions a running flow is following, so resuming after a connect doesn't follow them twice
+const followedTransactions = new Set<string>();
+
 // Create a new bucket
 export async function createBucket(
   bucketName: string,
-  isPrivate: boolean = false
+  isPrivate: boolean = false,
+  valuePropositionId?: string
 ): Promise<{ bucketId: string; txReceipt: TransactionReceipt }> {
   const storageHubClient = getStorageHubClient();
   const address = getConnectedAddress();
-  const publicClient = getPublicClient();
   const polkadotApi = getPolkadotApi();
 
   if (!address) {
     throw new Error('Wallet not connected');
   }
 
-  // Get MSP info and value prop
+  const nameError = validateBucketName(bucketName);
+  if (nameError) {
+    throw new Error(nameError);
+  }
+
+  // Get MSP info and the chosen value prop
   const { mspId } = await getMspInfo();
-  const valuePropId = await getValueProps();
+  const valuePropId = await getValueProps(valuePropositionId);
 
   // Derive bucket ID
   const bucketId = (await storageHubClient.deriveBucketId(address, bucketName)) as string;
@@ -37,8 +150,9 @@ export async function createBucket(
     throw new Error(`Bucket already exists: ${bucketId}`);
   }
 
-  // Build gas options based on current network conditions
-  const gasTxOpts = await buildGasTxOpts();
+  // Estimate gas for this call and apply the selected fee preset
+  const gasTxOpts = await buildGasTxOpts(createBucketCall(mspId, bucketName, isPrivate, valuePropId));
+  await ensureSufficientBalance(getMaxTransactionCost(gasTxOpts) + getStorageDeposit('bucket'), 'create a bucket');
 
   // Create bucket on chain
   const txHash: `0x${string}` | undefined = await storageHubClient.createBucket(
@@ -53,14 +167,35 @@ export async function createBucket(
     throw new Error('createBucket() did not return a transaction hash');
   }
 
-  // Wait for transaction receipt
-  const txReceipt = await publicClient.waitForTransactionReceipt({
+  // Persist the transaction so its follow-up steps can resume after a reload
+  savePendingTransaction({
     hash: txHash,
+    networkKey: getActiveNetworkKey(),
+    owner: address,
+    operation: 'createBucket',
+    bucketId,
+    bucketName,
+    step: 'confirming',
+    updatedAt: Date.now(),
   });
+  // Claimed until finishBucketCreation is done with it
+  followedTransactions.add(txHash);
+
+  // Wait for transaction receipt
+  let txReceipt: TransactionReceipt;
+  try {
+    txReceipt = await waitForRecordedTransaction(txHash, 'createBucket', { bucketId });
+  } catch (error) {
+    followedTransactions.delete(txHash);
+    throw error;
+  }
 
   if (txReceipt.status !== 'success') {
+    followedTransactions.delete(txHash);
+    removePendingTransaction(txHash);
     throw new Error(`Bucket creation failed: ${txHash}`);
   }
+  updatePendingTransactionStep(txHash, 'verifying');
 
   return { bucketId, txReceipt };
 }
@@ -92,37 +227,42 @@ export async function verifyBucketCreation(bucketId: string): Promise<BucketInfo
 }
 
 // Wait for backend to index the bucket
-export async function waitForBackendBucketReady(bucketId: string): Promise<void> {
+export async function waitForBackendBucketReady(bucketId: string, signal?: AbortSignal): Promise<void> {
   const mspClient = getMspClient();
-  const maxAttempts = 10;
-  const delayMs = 2000;
-
-  for (let i = 0; i < maxAttempts; i++) {
-    try {
-      const bucket = await mspClient.buckets.getBucket(bucketId);
-      if (bucket) {
-        return;
-      }
-    } catch (error: unknown) {
-      const err = error as { status?: number; body?: { error?: string } };
-      if (err.status === 404 || err.body?.error === 'Not found: Record') {
-        // Bucket not yet indexed, continue polling
-      } else {
+
+  await pollUntil(
+    async () => {
+      try {
+        const bucket = await mspClient.buckets.getBucket(bucketId);
+        return bucket ? true : undefined;
+      } catch (error: unknown) {
+        if (isNotFoundError(error)) {
+          // Bucket not yet indexed, continue polling
+          return undefined;
+        }
         throw error;
       }
-    }
-    await new Promise((r) => setTimeout(r, delayMs));
-  }
-  throw new Error(`Bucket ${bucketId} not found in MSP backend after waiting`);
+    },
+    { timeoutMessage: `Bucket ${bucketId} not found in MSP backend after waiting`, signal }
+  );
+}
+
+// Estimate the gas and fee presets for deleting a bucket
+export async function estimateDeleteBucketGas(bucketId: string): Promise<GasEstimate> {
+  return estimateGasCosts(deleteBucketCall(bucketId));
 }
 
 // Delete a bucket
 export async function deleteBucket(bucketId: string): Promise<boolean> {
   const storageHubClient = getStorageHubClient();
-  const publicClient = getPublicClient();
+  const address = getConnectedAddress();
+  if (!address) {
+    throw new Error('Wallet not connected');
+  }
 
-  // Build gas options based on current network conditions
-  const gasTxOpts = await buildGasTxOpts();
+  // Estimate gas for this call and apply the selected fee preset
+  const gasTxOpts = await buildGasTxOpts(deleteBucketCall(bucketId));
+  await ensureSufficientBalance(getMaxTransactionCost(gasTxOpts), 'delete a bucket');
 
   const txHash: `0x${string}` | undefined = await storageHubClient.deleteBucket(bucketId as `0x${string}`, gasTxOpts);
 
@@ -130,17 +270,302 @@ export async function deleteBucket(bucketId: string): Promise<boolean> {
     throw new Error('deleteBucket() did not return a transaction hash');
   }
 
-  const receipt = await publicClient.waitForTransactionReceipt({
+  // Persist the transaction so its follow-up steps can resume after a reload
+  savePendingTransaction({
     hash: txHash,
+    networkKey: getActiveNetworkKey(),
+    owner: address,
+    operation: 'deleteBucket',
+    bucketId,
+    step: 'confirming',
+    updatedAt: Date.now(),
   });
+  // Claimed until finishBucketDeletion is done with it
+  followedTransactions.add(txHash);
+
+  let receipt: TransactionReceipt;
+  try {
+    receipt = await waitForRecordedTransaction(txHash, 'deleteBucket', { bucketId });
+  } catch (error) {
+    followedTransactions.delete(txHash);
+    throw error;
+  }
 
   if (receipt.status !== 'success') {
+    followedTransactions.delete(txHash);
+    removePendingTransaction(txHash);
     throw new Error(`Bucket deletion failed (make sure that the bucket is empty prior to deletion): ${txHash}`);
   }
+  updatePendingTransactionStep(txHash, 'verifying');
 
   return true;
 }
 
+// Estimate the gas and fee presets for changing a bucket's privacy
+export async function estimateUpdateBucketPrivacyGas(bucketId: string, isPrivate: boolean): Promise<GasEstimate> {
+  return estimateGasCosts(updateBucketPrivacyCall(bucketId, isPrivate));
+}
+
+// Change whether a bucket is private
+export async function updateBucketPrivacy(bucketId: string, isPrivate: boolean): Promise<TransactionReceipt> {
+  const storageHubClient = getStorageHubClient();
+
+  // Estimate gas for this call and apply the selected fee preset
+  const gasTxOpts = await buildGasTxOpts(updateBucketPrivacyCall(bucketId, isPrivate));
+  await ensureSufficientBalance(getMaxTransactionCost(gasTxOpts), 'change bucket privacy');
+
+  const txHash: `0x${string}` | undefined = await storageHubClient.updateBucketPrivacy(
+    bucketId as `0x${string}`,
+    isPrivate,
+    gasTxOpts
+  );
+
+  if (!txHash) {
+    throw new Error('updateBucketPrivacy() did not return a transaction hash');
+  }
+
+  const receipt = await waitForRecordedTransaction(txHash, 'updateBucketPrivacy', { bucketId });
+
+  if (receipt.status !== 'success') {
+    throw new Error(`Bucket privacy update failed: ${txHash}`);
+  }
+
+  return receipt;
+}
+
+// Wait until the bucket's privacy on chain matches the requested value
+export async function verifyBucketPrivacy(
+  bucketId: string,
+  isPrivate: boolean,
+  signal?: AbortSignal
+): Promise<BucketInfo> {
+  const polkadotApi = getPolkadotApi();
+
+  return waitForChainCondition(polkadotApi, {
+    check: async () => {
+      const bucket = await polkadotApi.query.providers.buckets(bucketId);
+      if (bucket.isEmpty) {
+        throw new Error(`Bucket ${bucketId} not found on chain`);
+      }
+      const bucketData = bucket.unwrap().toHuman() as unknown as BucketInfo;
+      return bucketData.private === isPrivate ? bucketData : undefined;
+    },
+    isRelevant: (event) => event.section === 'fileSystem' && event.method === 'BucketPrivacyUpdated',
+    timeoutMessage: `Bucket ${bucketId} privacy not updated on chain after waiting`,
+    signal,
+  });
+}
+
+// Estimate the gas and fee presets for asking another MSP to take over a bucket
+export async function estimateMoveBucketGas(
+  bucketId: string,
+  newMspId: string,
+  newValuePropId: string
+): Promise<GasEstimate> {
+  return estimateGasCosts(requestMoveBucketCall(bucketId, newMspId, newValuePropId));
+}
+
+// Ask another MSP to take over a bucket under one of its value propositions
+export async function requestMoveBucket(
+  bucketId: string,
+  newMspId: string,
+  newValuePropId: string
+): Promise<TransactionReceipt> {
+  const storageHubClient = getStorageHubClient();
+
+  // Estimate gas for this call and apply the selected fee preset
+  const gasTxOpts = await buildGasTxOpts(requestMoveBucketCall(bucketId, newMspId, newValuePropId));
+  await ensureSufficientBalance(getMaxTransactionCost(gasTxOpts), 'move a bucket');
+
+  const txHash: `0x${string}` | undefined = await storageHubClient.requestMoveBucket(
+    bucketId as `0x${string}`,
+    newMspId as `0x${string}`,
+    newValuePropId as `0x${string}`,
+    gasTxOpts
+  );
+
+  if (!txHash) {
+    throw new Error('requestMoveBucket() did not return a transaction hash');
+  }
+
+  const receipt = await waitForRecordedTransaction(txHash, 'requestMoveBucket', { bucketId });
+
+  if (receipt.status !== 'success') {
+    throw new Error(`Bucket move request failed: ${txHash}`);
+  }
+
+  return receipt;
+}
+
+// Wait for the new MSP to accept or reject a pending bucket move.
+// The request is gone from chain storage once it is answered or expires.
+export async function waitForBucketMove(
+  bucketId: string,
+  newMspId: string,
+  signal?: AbortSignal
+): Promise<BucketMoveOutcome> {
+  const polkadotApi = getPolkadotApi();
+  // Storage looks the same after a rejection and an expiry, so the event tells them apart
+  let expired = false;
+
+  return waitForChainCondition(polkadotApi, {
+    check: async () => {
+      const pendingMove = await polkadotApi.query.fileSystem.pendingMoveBucketRequests(bucketId);
+      if (!pendingMove.isEmpty) return undefined;
+
+      const bucket = await polkadotApi.query.providers.buckets(bucketId);
+      if (bucket.isEmpty) {
+        throw new Error(`Bucket ${bucketId} not found on chain`);
+      }
+      const bucketData = bucket.unwrap().toHuman() as unknown as BucketInfo;
+      if (bucketData.mspId?.toLowerCase() === newMspId.toLowerCase()) {
+        return 'accepted';
+      }
+      return expired ? 'expired' : 'rejected';
+    },
+    isRelevant: (event) => {
+      if (event.section !== 'fileSystem') {
+        return false;
+      }
+      if (event.method === 'MoveBucketRequestExpired' && isBucketEvent(event, bucketId)) {
+        expired = true;
+      }
+      return ['MoveBucketAccepted', 'MoveBucketRejected', 'MoveBucketRequestExpired'].includes(event.method);
+    },
+    // The new MSP may take a while to fetch the bucket's data before answering
+    timeoutMs: 600000,
+    timeoutMessage: `Bucket ${bucketId} move request still pending after waiting`,
+    signal,
+  });
+}
+
+// Wait until a bucket is gone from chain storage
+export async function waitForBucketDeletedOnChain(bucketId: string, signal?: AbortSignal): Promise<void> {
+  const polkadotApi = getPolkadotApi();
+
+  await waitForChainCondition(polkadotApi, {
+    check: async () => {
+      const bucket = await polkadotApi.query.providers.buckets(bucketId);
+      return bucket.isEmpty ? true : undefined;
+    },
+    isRelevant: (event) => event.section === 'fileSystem' && event.method === 'BucketDeleted',
+    timeoutMessage: `Bucket ${bucketId} still exists on chain after waiting`,
+    signal,
+  });
+}
+
+// Wait for backend to drop a deleted bucket
+export async function waitForBackendBucketDeleted(bucketId: string, signal?: AbortSignal): Promise<void> {
+  const mspClient = getMspClient();
+
+  await pollUntil(
+    async () => {
+      try {
+        await mspClient.buckets.getBucket(bucketId);
+        // Bucket still indexed, keep polling
+        return undefined;
+      } catch (error: unknown) {
+        if (isNotFoundError(error)) {
+          return true;
+        }
+        throw error;
+      }
+    },
+    { timeoutMessage: `Bucket ${bucketId} still listed by MSP backend after waiting`, signal }
+  );
+}
+
+// Wait until the MSP backend lists no files in a bucket
+export async function waitForBackendBucketEmpty(bucketId: string, signal?: AbortSignal): Promise<void> {
+  await pollUntil(
+    async () => {
+      const files = await listBucketFiles(bucketId);
+      return files.length === 0 ? true : undefined;
+    },
+    {
+      // Deletions are only processed once the MSP has submitted its proofs
+      timeoutMs: 600000,
+      timeoutMessage: `Bucket ${bucketId} still has files in MSP backend after waiting`,
+      signal,
+    }
+  );
+}
+
+// Estimate the fees for deleting every file in a bucket and then the bucket itself.
+// File deletions need signed intentions and the bucket deletion an empty bucket, so none of them
+// can be estimated up front; each is priced with the allowance for unestimated calls.
+export async function estimateEmptyAndDeleteBucketGas(bucketId: string): Promise<BatchGasEstimate> {
+  const [files, estimate] = await Promise.all([
+    listBucketFiles(bucketId),
+    estimateGasCostsForLimit(SDK_ESTIMATED_GAS_ALLOWANCE),
+  ]);
+  return { estimate, transactionCount: files.length + 1 };
+}
+
+// Delete every file in a bucket, then the bucket itself.
+// Files are deleted one at a time; if any deletion fails the bucket is left in place.
+export async function emptyAndDeleteBucket(
+  bucketId: string,
+  onProgress?: (progress: BucketEmptyingProgress) => void
+): Promise<void> {
+  const progress: BucketEmptyingProgress = {
+    step: 'listing',
+    total: 0,
+    deleted: 0,
+    failures: [],
+    message: 'Listing files...',
+  };
+  const report = (changes: Partial<BucketEmptyingProgress>) => {
+    Object.assign(progress, changes);
+    onProgress?.({ ...progress, failures: [...progress.failures] });
+  };
+
+  try {
+    report({});
+    const files = await listBucketFiles(bucketId);
+
+    // Make sure the whole batch can be paid for, so the bucket isn't left half-emptied
+    const gasTxOpts = await buildGasTxOpts();
+    await ensureSufficientBalance(
+      getMaxTransactionCost(gasTxOpts) * BigInt(files.length + 1),
+      'delete every file and the bucket'
+    );
+
+    report({ step: 'deletingFiles', total: files.length, message: `Deleting ${files.length} files...` });
+    for (const file of files) {
+      try {
+        await requestDeleteFile(bucketId, file.fileKey);
+        report({ deleted: progress.deleted + 1 });
+      } catch (error) {
+        report({
+          failures: [
+            ...progress.failures,
+            { ...file, error: error instanceof Error ? error.message : String(error) },
+          ],
+        });
+      }
+    }
+
+    if (progress.failures.length > 0) {
+      throw new Error(
+        `${progress.failures.length} of ${files.length} files could not be deleted, the bucket was not deleted`
+      );
+    }
+
+    report({ step: 'waitingEmpty', message: 'Waiting for the MSP to remove the files...' });
+    await waitForBackendBucketEmpty(bucketId);
+
+    report({ step: 'deletingBucket', message: 'Deleting bucket...' });
+    await deleteBucket(bucketId);
+    await finishBucketDeletion(bucketId);
+
+    report({ step: 'done', message: 'Bucket and all its contents deleted.' });
+  } catch (error) {
+    report({ step: 'error', message: error instanceof Error ? error.message : 'Failed to delete bucket' });
+    throw error;
+  }
+}
+
 // Get all buckets from MSP
 export async function getBucketsFromMSP(): Promise<Bucket[]> {
   const mspClient = getMspClient();
@@ -154,3 +579,120 @@ export async function getBucket(bucketId: string): Promise<Bucket> {
   const bucket = await mspClient.buckets.getBucket(bucketId);
   return bucket;
 }
+
+// Run the remaining follow-up steps of a bucket transaction whose receipt is in,
+// starting from the step that was persisted last
+async function finishPendingTransaction(
+  pending: PendingTransaction,
+  onStep?: (step: 'verifying' | 'waiting') => void,
+  includeBackend: boolean = true
+): Promise<void> {
+  try {
+    if (pending.step !== 'waiting') {
+      onStep?.('verifying');
+      if (pending.operation === 'createBucket') {
+        await verifyBucketCreation(pending.bucketId);
+      } else {
+        await waitForBucketDeletedOnChain(pending.bucketId);
+      }
+      updatePendingTransactionStep(pending.hash, 'waiting');
+    }
+
+    if (!includeBackend) return;
+
+    onStep?.('waiting');
+    if (pending.operation === 'createBucket') {
+      await waitForBackendBucketReady(pending.bucketId);
+    } else {
+      await waitForBackendBucketDeleted(pending.bucketId);
+    }
+  } finally {
+    removePendingTransaction(pending.hash);
+    followedTransactions.delete(pending.hash);
+  }
+}
+
+// Verify a created bucket on chain and wait for the MSP backend to index it
+export async function finishBucketCreation(
+  bucketId: string,
+  onStep?: (step: 'verifying' | 'waiting') => void
+): Promise<void> {
+  const pending = findPendingTransaction('createBucket', bucketId);
+  if (!pending) {
+    throw new Error(`No pending bucket creation for ${bucketId}`);
+  }
+
+  await finishPendingTransaction(pending, onStep);
+}
+
+// Wait for a deleted bucket to disappear from chain storage and the MSP backend
+export async function finishBucketDeletion(
+  bucketId: string,
+  onStep?: (step: 'verifying' | 'waiting') => void
+): Promise<void> {
+  const pending = findPendingTransaction('deleteBucket', bucketId);
+  if (!pending) {
+    throw new Error(`No pending bucket deletion for ${bucketId}`);
+  }
+
+  await finishPendingTransaction(pending, onStep);
+}
+
+const RECOVERY_LABELS: Record<PendingTransaction['operation'], string> = {
+  createBucket: 'Bucket creation',
+  deleteBucket: 'Bucket deletion',
+};
+
+// Resume the bucket transactions of the connected account on the active network that were
+// interrupted by a reload. Each transaction reports its progress and outcome through onUpdate.
+export async function resumePendingTransactions(onUpdate: (update: RecoveredTransaction) => void): Promise<void> {
+  const networkKey = getActiveNetworkKey();
+  const address = getConnectedAddress()?.toLowerCase();
+  if (!address) return;
+
+  const pendingTransactions = getPendingTransactions().filter(
+    // Entries journaled before owners were recorded have no owner and are left alone
+    (tx) => tx.networkKey === networkKey && tx.owner?.toLowerCase() === address && !followedTransactions.has(tx.hash)
+  );
+  // The MSP backend needs a signed-in session; without one only the chain is checked
+  const includeBackend = isAuthenticated();
+
+  await Promise.all(
+    pendingTransactions.map(async (pending) => {
+      const label = RECOVERY_LABELS[pending.operation];
+      const bucket = pending.bucketName ?? pending.bucketId;
+      const report = (status: RecoveredTransaction['status'], message: string) =>
+        onUpdate({
+          hash: pending.hash,
+          operation: pending.operation,
+          bucketId: pending.bucketId,
+          bucketName: pending.bucketName,
+          status,
+          message,
+        });
+
+      followedTransactions.add(pending.hash);
+      try {
+        report('resuming', `${label} of ${bucket} is being resumed...`);
+
+        let current = pending;
+        if (current.step === 'confirming') {
+          const receipt = await waitForTransactionOutcome(current.hash);
+          if (receipt.status !== 'success') {
+            removePendingTransaction(current.hash);
+            throw new Error(`transaction ${current.hash} reverted`);
+          }
+          updatePendingTransactionStep(current.hash, 'verifying');
+          current = { ...current, step: 'verifying' };
+        }
+
+        await finishPendingTransaction(current, undefined, includeBackend);
+        report('done', includeBackend ? `${label} of ${bucket} completed.` : `${label} of ${bucket} confirmed on chain.`);
+      } catch (error) {
+        report('failed', `${label} of ${bucket} failed: ${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+        followedTransactions.delete(pending.hash);
+      }
+    })
+  );
+}
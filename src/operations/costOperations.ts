@@ -0,0 +1,83 @@
+import type { Codec } from '@polkadot/types/types';
+import { getPolkadotApi } from '../services/clientService';
+import { getValuePropositions } from '../services/mspService';
+import { listBucketFiles } from './fileOperations';
+import type { StorageCost, StoragePricing, ValueProp } from '../types';
+
+// Value proposition prices are per giga unit (2^30 bytes) of data per block
+const GIGA_UNIT = BigInt(1024 * 1024 * 1024);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30;
+
+// Used when the runtime exposes neither BABE nor timestamp constants
+const DEFAULT_BLOCK_TIME_MS = 6000;
+
+// Read the target block time from the runtime constants
+export function getBlockTimeMs(): number {
+  const consts = getPolkadotApi().consts as unknown as Record<string, Record<string, Codec | undefined> | undefined>;
+
+  const expectedBlockTime = consts.babe?.expectedBlockTime;
+  if (expectedBlockTime) {
+    return Number(expectedBlockTime.toString());
+  }
+
+  // Blocks are produced every two minimum timestamp periods
+  const minimumPeriod = consts.timestamp?.minimumPeriod;
+  if (minimumPeriod) {
+    return Number(minimumPeriod.toString()) * 2;
+  }
+
+  return DEFAULT_BLOCK_TIME_MS;
+}
+
+// Read the price every BSP charges per giga unit per tick from the payment streams pallet
+async function getBspPricePerGigaUnitPerTick(): Promise<bigint | null> {
+  const query = getPolkadotApi().query as unknown as Record<
+    string,
+    Record<string, (() => Promise<Codec>) | undefined> | undefined
+  >;
+
+  const currentPrice = query.paymentStreams?.currentPricePerGigaUnitPerTick;
+  if (!currentPrice) {
+    return null;
+  }
+  return BigInt((await currentPrice()).toString());
+}
+
+// Load the MSP's value propositions, the chain's BSP price and its block time
+export async function getStoragePricing(): Promise<StoragePricing> {
+  const [valueProps, bspPricePerGigaUnitPerTick] = await Promise.all([
+    getValuePropositions(),
+    getBspPricePerGigaUnitPerTick(),
+  ]);
+  return { valueProps, bspPricePerGigaUnitPerTick, blockTimeMs: getBlockTimeMs() };
+}
+
+// Project what storing the given amount of data costs under a value proposition.
+// BSP fees are only included when the number of replicas is known; payment stream ticks follow blocks.
+export function calculateStorageCost(
+  sizeBytes: number,
+  valueProp: ValueProp,
+  pricing: StoragePricing,
+  replicas?: number
+): StorageCost {
+  const includesBsps = replicas !== undefined && pricing.bspPricePerGigaUnitPerTick !== null;
+  const bspPrice = includesBsps ? (pricing.bspPricePerGigaUnitPerTick ?? BigInt(0)) * BigInt(replicas) : BigInt(0);
+  const price = BigInt(Math.round(valueProp.pricePerGbBlock)) + bspPrice;
+  const bytes = BigInt(sizeBytes);
+  const blocksPerDay = BigInt(Math.round(DAY_MS / pricing.blockTimeMs));
+
+  return {
+    perBlock: (price * bytes) / GIGA_UNIT,
+    perDay: (price * bytes * blocksPerDay) / GIGA_UNIT,
+    perMonth: (price * bytes * blocksPerDay * BigInt(DAYS_PER_MONTH)) / GIGA_UNIT,
+    includesBsps,
+  };
+}
+
+// Sum the sizes of all files in a bucket as listed by the MSP
+export async function getBucketStoredBytes(bucketId: string): Promise<number> {
+  const files = await listBucketFiles(bucketId);
+  return files.reduce((total, file) => total + file.sizeBytes, 0);
+}
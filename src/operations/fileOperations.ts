@@ -1,50 +1,67 @@
 import '@storagehub/api-augment';
-import { FileManager, ReplicationLevel } from '@storagehub-sdk/core';
+import { FileManager, FileMetadata, ReplicationLevel, filesystemAbi } from '@storagehub-sdk/core';
 import type { FileInfo } from '@storagehub-sdk/core';
 import { TypeRegistry } from '@polkadot/types';
 import type { AccountId20, H256 } from '@polkadot/types/interfaces';
-import type { FileListResponse, StorageFileInfo } from '@storagehub-sdk/msp-client';
+import type { FileListResponse, FileTree, StorageFileInfo } from '@storagehub-sdk/msp-client';
+import { hexToBytes, stringToHex, zeroHash } from 'viem';
 import {
   getStorageHubClient,
   getConnectedAddress,
-  getPublicClient,
   getPolkadotApi,
-  buildGasTxOpts,
+  getWalletClient,
 } from '../services/clientService';
-import { getMspClient, getMspInfo, authenticateUser, isAuthenticated } from '../services/mspService';
-
-// Upload a file
-export async function uploadFile(bucketId: string, file: File): Promise<{ fileKey: string; uploadReceipt: unknown }> {
-  const storageHubClient = getStorageHubClient();
-  const publicClient = getPublicClient();
-  const polkadotApi = getPolkadotApi();
-  const mspClient = getMspClient();
-  const address = getConnectedAddress();
-
-  if (!address) {
-    throw new Error('Wallet not connected');
-  }
-
-  // Create a FileManager from the browser File object
-  const fileBuffer = await file.arrayBuffer();
-  const fileBytes = new Uint8Array(fileBuffer);
-
-  const fileManager = new FileManager({
-    size: file.size,
-    stream: () =>
-      new ReadableStream<Uint8Array>({
-        start(controller) {
-          controller.enqueue(fileBytes);
-          controller.close();
-        },
-      }),
-  });
-
-  // Get file details
-  const fingerprint = await fileManager.getFingerprint();
-  const fileSizeBigInt = BigInt(fileManager.getFileSize());
+import { buildGasTxOpts, estimateGasCosts, estimateGasCostsForLimit } from '../services/gasService';
+import {
+  getMspClient,
+  getMspInfo,
+  authenticateUser,
+  isAuthenticated,
+  uploadFileStream,
+  isNotFoundError,
+} from '../services/mspService';
+import { getActiveNetwork, getActiveNetworkKey } from '../services/networkService';
+import {
+  removeUploadJournalEntry,
+  saveUploadJournalEntry,
+  updateUploadJournalStage,
+} from '../services/uploadJournalService';
+import { recordFileReplication } from '../services/fileReplicationService';
+import { pollUntil } from '../utils/polling';
+import { isFileKeyEvent, waitForChainCondition } from '../utils/chainEvents';
+import { waitForRecordedTransaction, waitForTransactionOutcome } from './transactionOperations';
+import {
+  SDK_ESTIMATED_GAS_ALLOWANCE,
+  ensureSufficientBalance,
+  getMaxTransactionCost,
+  getStorageDeposit,
+} from './balanceOperations';
+import type {
+  BspConfirmationStatus,
+  FileReplication,
+  FileUploadProgress,
+  FilesystemCall,
+  GasEstimate,
+  UploadJournalEntry,
+} from '../types';
+
+// Replication used when none is chosen: a single BSP copy
+export const DEFAULT_REPLICATION: FileReplication = { level: ReplicationLevel.Custom, replicas: 1 };
+
+// FileOperation value of a signed deletion intention
+const DELETE_FILE_OPERATION = 0;
+
+// Storage requests are sent one at a time so concurrent uploads don't race for the same nonce
+let storageRequestLock: Promise<unknown> = Promise.resolve();
+
+function withStorageRequestLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = storageRequestLock.then(fn, fn);
+  storageRequestLock = run.catch(() => undefined);
+  return run;
+}
 
-  // Get MSP details
+// Get the MSP id and the peer IDs from its multiaddresses
+async function getMspPeers(): Promise<{ mspId: string; peerIds: string[] }> {
   const { mspId, multiaddresses } = await getMspInfo();
 
   if (!multiaddresses?.length) {
@@ -60,43 +77,173 @@ export async function uploadFile(bucketId: string, file: File): Promise<{ fileKe
     throw new Error('MSP multiaddresses had no /p2p/<peerId> segment');
   }
 
-  // Issue storage request
-  const replicationLevel = ReplicationLevel.Custom;
-  const replicas = 1;
-
-  // Build gas options based on current network conditions
-  const gasTxOpts = await buildGasTxOpts();
-
-  const txHash: `0x${string}` | undefined = await storageHubClient.issueStorageRequest(
-    bucketId as `0x${string}`,
-    file.name,
-    fingerprint.toHex() as `0x${string}`,
-    fileSizeBigInt,
-    mspId as `0x${string}`,
-    peerIds,
-    replicationLevel,
-    replicas,
-    gasTxOpts
+  return { mspId, peerIds };
+}
+
+// Precompile call for issueStorageRequest, used for gas estimation
+function issueStorageRequestCall(
+  bucketId: string,
+  location: string,
+  fingerprint: string,
+  size: bigint,
+  mspId: string,
+  peerIds: string[],
+  replication: FileReplication
+): FilesystemCall {
+  return {
+    functionName: 'issueStorageRequest',
+    args: [
+      bucketId,
+      stringToHex(location),
+      fingerprint,
+      size,
+      mspId,
+      peerIds.map((peerId) => stringToHex(peerId)),
+      replication.level,
+      replication.replicas,
+    ],
+  };
+}
+
+// Estimate the gas and fee presets for issuing a storage request.
+// The fingerprint doesn't change the cost, so the file isn't read for it.
+export async function estimateUploadGas(
+  bucketId: string,
+  file: File,
+  location: string = file.name,
+  replication: FileReplication = DEFAULT_REPLICATION
+): Promise<GasEstimate> {
+  const { mspId, peerIds } = await getMspPeers();
+
+  const estimate = await estimateGasCosts(
+    issueStorageRequestCall(bucketId, location, zeroHash, BigInt(file.size), mspId, peerIds, replication)
   );
+  return { ...estimate, deposit: getStorageDeposit('storageRequest') };
+}
+
+export interface UploadFileOptions {
+  // Path inside the bucket, defaults to the file name
+  location?: string;
+  // BSP redundancy requested in the storage request
+  replication?: FileReplication;
+  signal?: AbortSignal;
+  onStep?: (step: FileUploadProgress['step']) => void;
+  // Called once the storage request transaction is sent and journaled
+  onStorageRequestSubmitted?: (fileKey: string) => void;
+  // Called once the storage request is on chain, so it can be revoked if the upload is cancelled
+  onStorageRequestIssued?: (fileKey: string) => void;
+}
+
+// Upload a file
+export async function uploadFile(
+  bucketId: string,
+  file: File,
+  options: UploadFileOptions = {}
+): Promise<{ fileKey: string; uploadReceipt: unknown }> {
+  const {
+    location = file.name,
+    replication = DEFAULT_REPLICATION,
+    signal,
+    onStep,
+    onStorageRequestSubmitted,
+    onStorageRequestIssued,
+  } = options;
+  const storageHubClient = getStorageHubClient();
+  const polkadotApi = getPolkadotApi();
+  const address = getConnectedAddress();
 
-  if (!txHash) {
-    throw new Error('issueStorageRequest() did not return a transaction hash');
+  if (!address) {
+    throw new Error('Wallet not connected');
   }
 
-  // Wait for transaction
-  const receipt = await publicClient.waitForTransactionReceipt({
-    hash: txHash,
+  // Create a FileManager that reads the browser File chunk by chunk,
+  // so fingerprinting never holds the whole file in memory
+  const fileManager = new FileManager({
+    size: file.size,
+    stream: () => file.stream(),
   });
 
-  if (receipt.status !== 'success') {
-    throw new Error(`Storage request failed: ${txHash}`);
+  // Get file details
+  const fingerprint = await fileManager.getFingerprint();
+  const fileSizeBigInt = BigInt(fileManager.getFileSize());
+
+  // Get MSP details
+  const { mspId, peerIds } = await getMspPeers();
+
+  // Issue storage request
+  const isCustomReplication = replication.level === ReplicationLevel.Custom;
+  if (isCustomReplication && (!Number.isInteger(replication.replicas) || replication.replicas < 1)) {
+    throw new Error('Custom replication requires at least one replica');
   }
 
   // Compute file key
   const registry = new TypeRegistry();
   const owner = registry.createType('AccountId20', address) as AccountId20;
   const bucketIdH256 = registry.createType('H256', bucketId) as H256;
-  const fileKey = await fileManager.computeFileKey(owner, bucketIdH256, file.name);
+  const fileKey = await fileManager.computeFileKey(owner, bucketIdH256, location);
+
+  onStep?.('issuing');
+  await withStorageRequestLock(async () => {
+    signal?.throwIfAborted();
+
+    // Estimate gas for this call and apply the selected fee preset
+    const gasTxOpts = await buildGasTxOpts(
+      issueStorageRequestCall(bucketId, location, fingerprint.toHex(), fileSizeBigInt, mspId, peerIds, replication)
+    );
+    await ensureSufficientBalance(
+      getMaxTransactionCost(gasTxOpts) + getStorageDeposit('storageRequest'),
+      'issue a storage request'
+    );
+
+    const txHash: `0x${string}` | undefined = await storageHubClient.issueStorageRequest(
+      bucketId as `0x${string}`,
+      location,
+      fingerprint.toHex() as `0x${string}`,
+      fileSizeBigInt,
+      mspId as `0x${string}`,
+      peerIds,
+      replication.level,
+      replication.replicas,
+      gasTxOpts
+    );
+
+    if (!txHash) {
+      throw new Error('issueStorageRequest() did not return a transaction hash');
+    }
+
+    // Journal the request before waiting for its receipt, so a reload in between can still resume it
+    await saveUploadJournalEntry({
+      fileKey: fileKey.toHex(),
+      bucketId,
+      location,
+      fingerprint: fingerprint.toHex(),
+      fileName: file.name,
+      fileSize: file.size,
+      owner: address,
+      networkKey: getActiveNetworkKey(),
+      stage: 'submitted',
+      txHash,
+      updatedAt: Date.now(),
+    });
+    recordFileReplication(fileKey.toHex(), replication);
+    onStorageRequestSubmitted?.(fileKey.toHex());
+
+    // Wait for transaction
+    const receipt = await waitForRecordedTransaction(txHash, 'issueStorageRequest', {
+      bucketId,
+      fileKey: fileKey.toHex(),
+      location,
+    });
+
+    if (receipt.status !== 'success') {
+      await removeUploadJournalEntry(fileKey.toHex());
+      throw new Error(`Storage request failed: ${txHash}`);
+    }
+  });
+
+  await updateUploadJournalStage(fileKey.toHex(), 'uploading');
+  onStorageRequestIssued?.(fileKey.toHex());
+  signal?.throwIfAborted();
 
   // Verify storage request on chain
   const storageRequest = await polkadotApi.query.fileSystem.storageRequests(fileKey);
@@ -104,84 +251,303 @@ export async function uploadFile(bucketId: string, file: File): Promise<{ fileKe
     throw new Error('Storage request not found on chain');
   }
 
+  onStep?.('uploading');
+  const uploadReceipt = await sendFileToMsp(bucketId, fileKey.toHex(), file, location, fingerprint.toU8a(), signal);
+
+  return { fileKey: fileKey.toHex(), uploadReceipt };
+}
+
+// Upload the file contents for an issued storage request to the MSP
+async function sendFileToMsp(
+  bucketId: string,
+  fileKey: string,
+  file: File,
+  location: string,
+  fingerprint: Uint8Array,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const address = getConnectedAddress();
+
+  if (!address) {
+    throw new Error('Wallet not connected');
+  }
+
   // Authenticate if not already
   if (!isAuthenticated()) {
     await authenticateUser();
   }
 
-  // Upload file to MSP
-  const fileBlob = await fileManager.getFileBlob();
-  const uploadReceipt = await mspClient.files.uploadFile(bucketId, fileKey.toHex(), fileBlob, address, file.name);
+  // Upload file to MSP, streaming the File itself as the request body
+  const fileMetadata = new FileMetadata(
+    hexToBytes(address),
+    hexToBytes(bucketId as `0x${string}`),
+    new TextEncoder().encode(location),
+    BigInt(file.size),
+    fingerprint
+  );
+  const uploadReceipt = await uploadFileStream(bucketId, fileKey, file, fileMetadata.encode(), signal);
 
   if (uploadReceipt.status !== 'upload_successful') {
     throw new Error('File upload to MSP failed');
   }
 
-  return { fileKey: fileKey.toHex(), uploadReceipt };
+  await updateUploadJournalStage(fileKey, 'confirming');
+  return uploadReceipt;
 }
 
-// Wait for MSP to confirm on chain
-export async function waitForMSPConfirmOnChain(fileKey: string): Promise<void> {
+// Resume an upload whose storage request was issued in an earlier session
+export async function resumeFileUpload(
+  entry: UploadJournalEntry,
+  file: File,
+  options: Pick<UploadFileOptions, 'signal' | 'onStep'> = {}
+): Promise<void> {
+  const { signal, onStep } = options;
   const polkadotApi = getPolkadotApi();
-  const maxAttempts = 10;
-  const delayMs = 2000;
+  const address = getConnectedAddress();
 
-  for (let i = 0; i < maxAttempts; i++) {
-    const req = await polkadotApi.query.fileSystem.storageRequests(fileKey);
+  if (address?.toLowerCase() !== entry.owner.toLowerCase()) {
+    throw new Error('Connect the wallet that started this upload to resume it');
+  }
 
-    if (req.isNone) {
-      throw new Error(`StorageRequest for ${fileKey} no longer exists on-chain.`);
-    }
+  // Make sure the selected file is the one the storage request was issued for
+  onStep?.('preparing');
+  if (file.size !== entry.fileSize) {
+    throw new Error(`Selected file does not match ${entry.location} (size differs)`);
+  }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const data = req.unwrap() as any;
-    const mspTuple = data.msp?.isSome ? data.msp.unwrap() : null;
-    const mspConfirmed = mspTuple ? mspTuple[1]?.isTrue : false;
+  const fileManager = new FileManager({
+    size: file.size,
+    stream: () => file.stream(),
+  });
+  const fingerprint = await fileManager.getFingerprint();
 
-    if (mspConfirmed) {
-      return;
+  if (fingerprint.toHex() !== entry.fingerprint) {
+    throw new Error(`Selected file does not match ${entry.location} (fingerprint differs)`);
+  }
+  signal?.throwIfAborted();
+
+  // Once the MSP has the file only the confirmation steps remain
+  if (entry.stage === 'confirming') return;
+
+  // The page was reloaded before the storage request's receipt came in
+  if (entry.stage === 'submitted' && entry.txHash) {
+    onStep?.('issuing');
+    const receipt = await waitForTransactionOutcome(entry.txHash as `0x${string}`);
+    if (receipt.status !== 'success') {
+      await removeUploadJournalEntry(entry.fileKey);
+      throw new Error(`Storage request failed: ${entry.txHash}`);
     }
+    await updateUploadJournalStage(entry.fileKey, 'uploading');
+    signal?.throwIfAborted();
+  }
 
-    await new Promise((r) => setTimeout(r, delayMs));
+  const storageRequest = await polkadotApi.query.fileSystem.storageRequests(entry.fileKey);
+  if (!storageRequest.isSome) {
+    throw new Error('Storage request no longer exists on chain, it may have expired');
   }
 
-  throw new Error(`FileKey ${fileKey} not confirmed by MSP after waiting`);
+  onStep?.('uploading');
+  await sendFileToMsp(entry.bucketId, entry.fileKey, file, entry.location, fingerprint.toU8a(), signal);
+}
+
+// Wait for MSP to confirm on chain
+export async function waitForMSPConfirmOnChain(fileKey: string, signal?: AbortSignal): Promise<void> {
+  const polkadotApi = getPolkadotApi();
+  let fulfilled = false;
+
+  await waitForChainCondition(polkadotApi, {
+    check: async () => {
+      // A request fulfilled right away leaves storage before we can see the MSP flag
+      if (fulfilled) {
+        return true;
+      }
+
+      const req = await polkadotApi.query.fileSystem.storageRequests(fileKey);
+
+      if (req.isNone) {
+        throw new Error(`StorageRequest for ${fileKey} no longer exists on-chain.`);
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const data = req.unwrap() as any;
+      const mspTuple = data.msp?.isSome ? data.msp.unwrap() : null;
+      const mspConfirmed = mspTuple ? mspTuple[1]?.isTrue : false;
+
+      return mspConfirmed ? true : undefined;
+    },
+    isRelevant: (event) => {
+      if (event.section !== 'fileSystem' || !isFileKeyEvent(event, fileKey)) {
+        return false;
+      }
+      if (event.method === 'StorageRequestFulfilled') {
+        fulfilled = true;
+      }
+      return true;
+    },
+    timeoutMessage: `FileKey ${fileKey} not confirmed by MSP after waiting`,
+    signal,
+  });
+}
+
+// Fields read from fileSystem storage for BSP tracking, until the generated api-augment types are available
+interface StorageRequestCounters {
+  bspsRequired: { toNumber: () => number };
+  bspsConfirmed: { toNumber: () => number };
+  bspsVolunteered: { toNumber: () => number };
+}
+
+interface StorageRequestBspEntry {
+  isSome: boolean;
+  unwrap: () => { confirmed: { isTrue: boolean } };
+}
+
+// Read the BSP confirmation counters of a storage request, or null once it has left the chain
+export async function getBspConfirmationStatus(fileKey: string): Promise<BspConfirmationStatus | null> {
+  const polkadotApi = getPolkadotApi();
+
+  const req = await polkadotApi.query.fileSystem.storageRequests(fileKey);
+  if (req.isNone) {
+    return null;
+  }
+
+  const data = req.unwrap() as unknown as StorageRequestCounters;
+  const bspEntries = await polkadotApi.query.fileSystem.storageRequestBsps.entries(fileKey);
+
+  return {
+    required: data.bspsRequired.toNumber(),
+    confirmed: data.bspsConfirmed.toNumber(),
+    volunteered: data.bspsVolunteered.toNumber(),
+    bsps: bspEntries.map(([key, value]) => {
+      const bsp = value as unknown as StorageRequestBspEntry;
+      return {
+        bspId: key.args[1].toHex(),
+        confirmed: bsp.isSome ? bsp.unwrap().confirmed.isTrue : false,
+      };
+    }),
+    fulfilled: false,
+  };
+}
+
+// Events that remove a storage request from chain storage
+const STORAGE_REQUEST_END_EVENTS = [
+  'StorageRequestFulfilled',
+  'StorageRequestExpired',
+  'StorageRequestRevoked',
+  'StorageRequestRejected',
+];
+
+// Follow a storage request until every required BSP has confirmed storing the file.
+// Only call this once the MSP has confirmed: a request already gone by then was fulfilled.
+export async function trackBspConfirmations(
+  fileKey: string,
+  onUpdate: (status: BspConfirmationStatus) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const polkadotApi = getPolkadotApi();
+  let lastStatus: BspConfirmationStatus | null = null;
+  // The event that removed the request from storage, which tells fulfilment apart from expiry or revocation
+  let removedBy: string | null = null;
+
+  await waitForChainCondition(polkadotApi, {
+    check: async () => {
+      const status = await getBspConfirmationStatus(fileKey);
+
+      if (!status) {
+        // Either fulfilled before the first read, or seen on chain and then seen fulfilled
+        if ((!lastStatus && !removedBy) || (removedBy === 'StorageRequestFulfilled' && lastStatus)) {
+          const required = lastStatus?.required ?? 0;
+          const volunteered = lastStatus?.volunteered ?? 0;
+          onUpdate({ required, confirmed: required, volunteered, bsps: [], fulfilled: true });
+          return true;
+        }
+        switch (removedBy) {
+          case 'StorageRequestExpired':
+            throw new Error('Storage request expired before enough BSPs confirmed');
+          case 'StorageRequestRevoked':
+            throw new Error('Storage request was revoked before enough BSPs confirmed');
+          case 'StorageRequestRejected':
+            throw new Error('Storage request was rejected before enough BSPs confirmed');
+          default:
+            throw new Error('Storage request left the chain before its BSP confirmations could be tracked');
+        }
+      }
+
+      lastStatus = status;
+      onUpdate(status);
+      return status.confirmed >= status.required ? true : undefined;
+    },
+    // BSP confirmations list several file keys, so re-check on any replication event
+    isRelevant: (event) => {
+      if (event.section !== 'fileSystem') {
+        return false;
+      }
+      if (STORAGE_REQUEST_END_EVENTS.includes(event.method) && isFileKeyEvent(event, fileKey)) {
+        removedBy = event.method;
+      }
+      return ['AcceptedBspVolunteer', 'BspConfirmedStoring', ...STORAGE_REQUEST_END_EVENTS].includes(event.method);
+    },
+    timeoutMs: 600000,
+    timeoutMessage: 'Timed out waiting for BSP confirmations',
+    signal,
+  });
 }
 
 // Wait for backend to mark file as ready
-export async function waitForBackendFileReady(bucketId: string, fileKey: string): Promise<FileInfo> {
+export async function waitForBackendFileReady(
+  bucketId: string,
+  fileKey: string,
+  signal?: AbortSignal
+): Promise<FileInfo> {
   const mspClient = getMspClient();
-  const maxAttempts = 60; // 5 minutes with 5s delay
-  const delayMs = 5000;
-
-  for (let i = 0; i < maxAttempts; i++) {
-    try {
-      const fileInfo = await mspClient.files.getFileInfo(bucketId, fileKey);
-
-      if (fileInfo.status === 'ready') {
-        return fileInfo;
-      } else if (fileInfo.status === 'revoked') {
-        throw new Error('File upload was cancelled by user');
-      } else if (fileInfo.status === 'rejected') {
-        throw new Error('File upload was rejected by MSP');
-      } else if (fileInfo.status === 'expired') {
-        throw new Error('Storage request expired');
-      }
 
-      // For "pending" status, continue waiting
-    } catch (error: unknown) {
-      const err = error as { status?: number; body?: { error?: string } };
-      if (err?.status === 404 || err?.body?.error === 'Not found: Record') {
-        // File not yet indexed, continue waiting
-      } else {
+  return pollUntil(
+    async () => {
+      try {
+        const fileInfo = await mspClient.files.getFileInfo(bucketId, fileKey);
+
+        if (fileInfo.status === 'ready') {
+          return fileInfo;
+        } else if (fileInfo.status === 'revoked') {
+          throw new Error('File upload was cancelled by user');
+        } else if (fileInfo.status === 'rejected') {
+          throw new Error('File upload was rejected by MSP');
+        } else if (fileInfo.status === 'expired') {
+          throw new Error('Storage request expired');
+        }
+
+        // For "pending" status, continue waiting
+        return undefined;
+      } catch (error: unknown) {
+        if (isNotFoundError(error)) {
+          // File not yet indexed, continue waiting
+          return undefined;
+        }
         throw error;
       }
-    }
+    },
+    { timeoutMs: 300000, timeoutMessage: 'Timed out waiting for file to be ready', signal }
+  );
+}
 
-    await new Promise((r) => setTimeout(r, delayMs));
-  }
+// Wait for backend to drop a deleted file
+export async function waitForBackendFileDeleted(bucketId: string, fileKey: string, signal?: AbortSignal): Promise<void> {
+  const mspClient = getMspClient();
 
-  throw new Error('Timed out waiting for file to be ready');
+  await pollUntil(
+    async () => {
+      try {
+        await mspClient.files.getFileInfo(bucketId, fileKey);
+        // File still exists, keep polling
+        return undefined;
+      } catch (error: unknown) {
+        if (isNotFoundError(error)) {
+          return true;
+        }
+        throw error;
+      }
+    },
+    { initialDelayMs: 3000, timeoutMs: 90000, timeoutMessage: 'Timed out waiting for file deletion', signal }
+  );
 }
 
 // Download a file
@@ -202,24 +568,64 @@ export async function downloadFile(fileKey: string): Promise<Blob> {
   return new Blob([blob], { type: contentType });
 }
 
+// Estimate the fee presets for deleting a file. The exact call needs a signed deletion intention,
+// so the fee is priced with the allowance for calls that can't be estimated before signing.
+export async function estimateDeleteFileGas(): Promise<GasEstimate> {
+  return estimateGasCostsForLimit(SDK_ESTIMATED_GAS_ALLOWANCE);
+}
+
 // Delete a file
 export async function requestDeleteFile(bucketId: string, fileKey: string): Promise<boolean> {
-  const storageHubClient = getStorageHubClient();
-  const publicClient = getPublicClient();
   const mspClient = getMspClient();
+  const walletClient = getWalletClient();
+  const account = walletClient.account;
+
+  if (!account) {
+    throw new Error('Wallet not connected');
+  }
 
   // Get file info before deletion
   const fileInfo: FileInfo = await mspClient.files.getFileInfo(bucketId, fileKey);
 
-  // Build gas options based on current network conditions
-  const gasTxOpts = await buildGasTxOpts();
+  // Check the balance against the allowance before the wallet is asked for anything
+  await ensureSufficientBalance(getMaxTransactionCost(await buildGasTxOpts()), 'delete a file');
 
-  // Request file deletion
-  const txHash: `0x${string}` = await storageHubClient.requestDeleteFile(fileInfo, gasTxOpts);
+  // Sign the deletion intention (file key + delete operation), so the exact call can be estimated
+  const signature = await walletClient.signMessage({
+    account,
+    message: { raw: new Uint8Array([...hexToBytes(fileInfo.fileKey), DELETE_FILE_OPERATION]) },
+  });
+  const args = [
+    { fileKey: fileInfo.fileKey, operation: DELETE_FILE_OPERATION },
+    signature,
+    fileInfo.bucketId,
+    stringToHex(fileInfo.location),
+    fileInfo.size,
+    fileInfo.fingerprint,
+  ] as const;
+
+  // Estimate gas for this call and apply the selected fee preset
+  const gasTxOpts = await buildGasTxOpts({ functionName: 'requestDeleteFile', args });
+  await ensureSufficientBalance(getMaxTransactionCost(gasTxOpts), 'delete a file');
+
+  // Send the signed call directly, since the SDK would ask the wallet to sign the intention again
+  const txHash = await walletClient.writeContract({
+    address: getActiveNetwork().filesystemContractAddress,
+    abi: filesystemAbi,
+    functionName: 'requestDeleteFile',
+    args,
+    account,
+    chain: walletClient.chain,
+    gas: gasTxOpts.gas,
+    maxFeePerGas: gasTxOpts.maxFeePerGas,
+    maxPriorityFeePerGas: gasTxOpts.maxPriorityFeePerGas,
+  });
 
   // Wait for transaction receipt
-  const receipt = await publicClient.waitForTransactionReceipt({
-    hash: txHash,
+  const receipt = await waitForRecordedTransaction(txHash, 'requestDeleteFile', {
+    bucketId,
+    fileKey,
+    location: fileInfo.location,
   });
 
   if (receipt.status !== 'success') {
@@ -229,6 +635,29 @@ export async function requestDeleteFile(bucketId: string, fileKey: string): Prom
   return true;
 }
 
+// Revoke a pending storage request
+export async function revokeStorageRequest(fileKey: string): Promise<void> {
+  const storageHubClient = getStorageHubClient();
+
+  await withStorageRequestLock(async () => {
+    // Estimate gas for this call and apply the selected fee preset
+    const gasTxOpts = await buildGasTxOpts({ functionName: 'revokeStorageRequest', args: [fileKey] });
+
+    const txHash = await storageHubClient.revokeStorageRequest(fileKey as `0x${string}`, gasTxOpts);
+
+    if (!txHash) {
+      throw new Error('revokeStorageRequest() did not return a transaction hash');
+    }
+
+    // Wait for transaction receipt
+    const receipt = await waitForRecordedTransaction(txHash, 'revokeStorageRequest', { fileKey });
+
+    if (receipt.status !== 'success') {
+      throw new Error(`Revoking storage request failed: ${txHash}`);
+    }
+  });
+}
+
 // Get files in a bucket
 export async function getBucketFilesFromMSP(bucketId: string): Promise<FileListResponse> {
   const mspClient = getMspClient();
@@ -236,6 +665,24 @@ export async function getBucketFilesFromMSP(bucketId: string): Promise<FileListR
   return files;
 }
 
+// List every file in a bucket with its path, flattening the MSP's folder tree
+export async function listBucketFiles(
+  bucketId: string
+): Promise<{ fileKey: string; location: string; sizeBytes: number }[]> {
+  const { files } = await getBucketFilesFromMSP(bucketId);
+
+  const flatten = (items: FileTree[], path: string) =>
+    items.flatMap((item): { fileKey: string; location: string; sizeBytes: number }[] => {
+      // The root "/" folder doesn't add to the path
+      const location = item.name === '/' ? path : path ? `${path}/${item.name}` : item.name;
+      return item.type === 'file'
+        ? [{ fileKey: item.fileKey, location, sizeBytes: item.sizeBytes }]
+        : flatten(item.children, location);
+    });
+
+  return flatten(files ?? [], '');
+}
+
 // Get file info
 export async function getFileInfo(bucketId: string, fileKey: string): Promise<StorageFileInfo> {
   const mspClient = getMspClient();
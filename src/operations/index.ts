@@ -1,18 +1,72 @@
 export {
+  getBucketNameLimit,
+  validateBucketName,
+  previewBucketName,
   createBucket,
+  estimateCreateBucketGas,
   verifyBucketCreation,
   waitForBackendBucketReady,
+  estimateDeleteBucketGas,
   deleteBucket,
+  estimateUpdateBucketPrivacyGas,
+  updateBucketPrivacy,
+  verifyBucketPrivacy,
+  estimateMoveBucketGas,
+  requestMoveBucket,
+  waitForBucketMove,
+  waitForBucketDeletedOnChain,
+  waitForBackendBucketDeleted,
+  finishBucketCreation,
+  finishBucketDeletion,
+  waitForBackendBucketEmpty,
+  estimateEmptyAndDeleteBucketGas,
+  emptyAndDeleteBucket,
+  resumePendingTransactions,
   getBucketsFromMSP,
   getBucket,
 } from './bucketOperations';
 
 export {
+  DEFAULT_REPLICATION,
   uploadFile,
+  estimateUploadGas,
+  resumeFileUpload,
   waitForMSPConfirmOnChain,
+  getBspConfirmationStatus,
+  trackBspConfirmations,
   waitForBackendFileReady,
+  waitForBackendFileDeleted,
   downloadFile,
+  estimateDeleteFileGas,
   requestDeleteFile,
+  revokeStorageRequest,
   getBucketFilesFromMSP,
+  listBucketFiles,
   getFileInfo,
 } from './fileOperations';
+
+export {
+  MAX_CONCURRENT_UPLOADS,
+  getUploadQueue,
+  subscribeToUploadQueue,
+  enqueueUploads,
+  resumeUpload,
+  retryUpload,
+  skipUpload,
+  isUploadCancellable,
+  cancelUpload,
+  clearFinishedUploads,
+} from './uploadQueue';
+
+export { decodeFilesystemLogs, waitForRecordedTransaction, waitForTransactionOutcome } from './transactionOperations';
+
+export { getStorageDeposit, getMaxTransactionCost, ensureSufficientBalance } from './balanceOperations';
+
+export {
+  getBlockTimeMs,
+  getStoragePricing,
+  calculateStorageCost,
+  getBucketStoredBytes,
+} from './costOperations';
+
+export { getMainStorageProviders, getBackupStorageProviders } from './providerOperations';
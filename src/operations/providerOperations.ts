@@ -0,0 +1,93 @@
+import type { Codec } from '@polkadot/types/types';
+import { hexToString, isHex } from 'viem';
+import { getPolkadotApi } from '../services/clientService';
+import type { BackupStorageProvider, MainStorageProvider, StorageProviderDetails, ValueProp } from '../types';
+
+type StorageEntry = [{ args: Codec[] }, Codec];
+
+type RuntimeCalls = Record<string, Record<string, ((...args: unknown[]) => Promise<Codec>) | undefined> | undefined>;
+
+// Multiaddresses are stored as raw bytes, decode them when they are valid UTF-8 text
+function decodeMultiaddress(value: unknown): string {
+  const raw = String(value);
+  return isHex(raw) ? hexToString(raw) : raw;
+}
+
+// Read a provider's stake through the providers runtime API, if the runtime has it
+async function getProviderStake(providerId: string): Promise<bigint | null> {
+  const calls = getPolkadotApi().call as unknown as RuntimeCalls;
+  const getStake = calls.storageProvidersApi?.getStake;
+  if (!getStake) return null;
+
+  try {
+    const stake = (await getStake(providerId)).toJSON();
+    return stake === null || stake === undefined ? null : BigInt(String(stake));
+  } catch {
+    return null;
+  }
+}
+
+// Fields shared by MSP and BSP records
+async function toProviderDetails(providerId: string, provider: Record<string, unknown>): Promise<StorageProviderDetails> {
+  return {
+    ownerAccount: String(provider.ownerAccount ?? ''),
+    capacity: BigInt(String(provider.capacity ?? 0)),
+    capacityUsed: BigInt(String(provider.capacityUsed ?? 0)),
+    multiaddresses: ((provider.multiaddresses as unknown[] | undefined) ?? []).map(decodeMultiaddress),
+    stake: await getProviderStake(providerId),
+  };
+}
+
+// Read the value propositions an MSP has registered on chain
+async function getOnChainValueProps(mspId: string): Promise<ValueProp[]> {
+  const polkadotApi = getPolkadotApi();
+  const entries = (await polkadotApi.query.providers.mainStorageProviderIdsToValuePropositions.entries(
+    mspId
+  )) as unknown as StorageEntry[];
+
+  return entries.map(([key, value]) => {
+    const valueProp = value.toJSON() as Record<string, unknown>;
+    return {
+      id: key.args[1].toString(),
+      pricePerGbBlock: Number(valueProp.pricePerGigaUnitOfDataPerBlock ?? 0),
+      dataLimitPerBucketBytes: Number(valueProp.bucketDataLimit ?? 0),
+      isAvailable: !!valueProp.available,
+    } as ValueProp;
+  });
+}
+
+// List the MSPs registered on chain together with their value propositions
+export async function getMainStorageProviders(): Promise<MainStorageProvider[]> {
+  const polkadotApi = getPolkadotApi();
+  const entries = (await polkadotApi.query.providers.mainStorageProviders.entries()) as unknown as StorageEntry[];
+
+  return Promise.all(
+    entries.map(async ([key, value]) => {
+      const mspId = key.args[0].toString();
+      const msp = value.toJSON() as Record<string, unknown>;
+      return {
+        mspId,
+        ...(await toProviderDetails(mspId, msp)),
+        valueProps: await getOnChainValueProps(mspId),
+      };
+    })
+  );
+}
+
+// List the BSPs registered on chain
+export async function getBackupStorageProviders(): Promise<BackupStorageProvider[]> {
+  const polkadotApi = getPolkadotApi();
+  const entries = (await polkadotApi.query.providers.backupStorageProviders.entries()) as unknown as StorageEntry[];
+
+  return Promise.all(
+    entries.map(async ([key, value]) => {
+      const bspId = key.args[0].toString();
+      const bsp = value.toJSON() as Record<string, unknown>;
+      return {
+        bspId,
+        ...(await toProviderDetails(bspId, bsp)),
+        reputationWeight: Number(bsp.reputationWeight ?? 0),
+      };
+    })
+  );
+}
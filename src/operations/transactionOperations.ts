@@ -0,0 +1,74 @@
+import { filesystemAbi } from '@storagehub-sdk/core';
+import { decodeEventLog, isAddressEqual } from 'viem';
+import type { TransactionReceipt } from 'viem';
+import { getConnectedAddress, getPublicClient } from '../services/clientService';
+import { getActiveNetwork, getActiveNetworkKey } from '../services/networkService';
+import { recordTransaction, updateTransaction } from '../services/transactionHistoryService';
+import { refreshBalance } from '../services/balanceService';
+import type { DecodedTransactionLog, TransactionOperation, TransactionRecord } from '../types';
+
+// What a transaction acted on, shown in the transaction history
+export type TransactionSubject = Pick<TransactionRecord, 'bucketId' | 'fileKey' | 'location'>;
+
+// Decode the filesystem precompile events emitted by a transaction
+export function decodeFilesystemLogs(receipt: TransactionReceipt): DecodedTransactionLog[] {
+  const { filesystemContractAddress } = getActiveNetwork();
+  const decoded: DecodedTransactionLog[] = [];
+
+  for (const log of receipt.logs) {
+    if (!isAddressEqual(log.address, filesystemContractAddress)) continue;
+
+    try {
+      const { eventName, args } = decodeEventLog({ abi: filesystemAbi, data: log.data, topics: log.topics });
+      if (!eventName) continue;
+
+      decoded.push({
+        eventName,
+        args: Object.fromEntries(Object.entries(args ?? {}).map(([name, value]) => [name, String(value)])),
+      });
+    } catch {
+      // Not a filesystem event we know about, skip it
+    }
+  }
+
+  return decoded;
+}
+
+// Record a submitted transaction in the history, wait for its receipt and store the outcome
+export async function waitForRecordedTransaction(
+  hash: `0x${string}`,
+  operation: TransactionOperation,
+  subject: TransactionSubject = {}
+): Promise<TransactionReceipt> {
+  recordTransaction({
+    hash,
+    networkKey: getActiveNetworkKey(),
+    from: getConnectedAddress() ?? '',
+    operation,
+    ...subject,
+    status: 'pending',
+    timestamp: Date.now(),
+  });
+
+  return waitForTransactionOutcome(hash);
+}
+
+// Wait for the receipt of an already recorded transaction and store the outcome
+export async function waitForTransactionOutcome(hash: `0x${string}`): Promise<TransactionReceipt> {
+  const publicClient = getPublicClient();
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+  updateTransaction(hash, {
+    status: receipt.status === 'success' ? 'success' : 'reverted',
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+    fee: (receipt.gasUsed * receipt.effectiveGasPrice).toString(),
+    blockNumber: receipt.blockNumber.toString(),
+    logs: decodeFilesystemLogs(receipt),
+  });
+
+  // The fee and any deposit have been paid, show the new balance
+  refreshBalance().catch(() => undefined);
+
+  return receipt;
+}
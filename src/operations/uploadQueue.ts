@@ -0,0 +1,276 @@
+import {
+  DEFAULT_REPLICATION,
+  uploadFile,
+  resumeFileUpload,
+  waitForMSPConfirmOnChain,
+  waitForBackendFileReady,
+  revokeStorageRequest,
+  trackBspConfirmations,
+} from './fileOperations';
+import { getUploadJournalEntry, removeUploadJournalEntry } from '../services/uploadJournalService';
+import { getFileReplication } from '../services/fileReplicationService';
+import type { FileReplication, FileUploadProgress, UploadJournalEntry, UploadQueueItem, UploadSource } from '../types';
+
+// Number of files processed at the same time
+export const MAX_CONCURRENT_UPLOADS = 3;
+
+const STEP_MESSAGES: Record<FileUploadProgress['step'], string> = {
+  idle: 'Queued',
+  preparing: 'Preparing file...',
+  issuing: 'Issuing storage request...',
+  uploading: 'Uploading to MSP...',
+  confirming: 'Waiting for MSP confirmation...',
+  finalizing: 'Finalizing...',
+  done: 'File uploaded successfully!',
+  error: 'Upload failed',
+  cancelling: 'Cancelling upload...',
+  cancelled: 'Upload cancelled',
+  revoked: 'Upload cancelled, storage request revoked',
+};
+
+// Steps during which an upload can still be cancelled. Once the MSP has confirmed,
+// the storage request may already be fulfilled and can no longer be revoked.
+const CANCELLABLE_STEPS: FileUploadProgress['step'][] = ['preparing', 'issuing', 'uploading', 'confirming'];
+
+// State
+let queue: UploadQueueItem[] = [];
+let activeCount = 0;
+let nextId = 0;
+const abortControllers = new Map<string, AbortController>();
+const bspTrackers = new Map<string, AbortController>();
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function updateItem(id: string, changes: Partial<UploadQueueItem>) {
+  queue = queue.map((item) => (item.id === id ? { ...item, ...changes } : item));
+  notify();
+}
+
+// Run a single queued upload through all of its steps
+async function processItem(item: UploadQueueItem) {
+  const controller = new AbortController();
+  abortControllers.set(item.id, controller);
+  const { signal } = controller;
+
+  let currentStep: FileUploadProgress['step'] = 'preparing';
+  let issuedFileKey = item.fileKey;
+  const setStep = (step: FileUploadProgress['step']) => {
+    // Once cancelled, keep showing the cancellation instead of late progress updates
+    if (signal.aborted) return;
+    currentStep = step;
+    updateItem(item.id, { progress: { step, message: STEP_MESSAGES[step] } });
+  };
+
+  try {
+    // An item with a journaled storage request continues from where it stopped
+    // instead of issuing a second request for the same file
+    const journalEntry = item.fileKey ? getUploadJournalEntry(item.fileKey) : undefined;
+    let fileKey: string;
+
+    if (journalEntry) {
+      await resumeFileUpload(journalEntry, item.file, { signal, onStep: setStep });
+      fileKey = journalEntry.fileKey;
+    } else {
+      ({ fileKey } = await uploadFile(item.bucketId, item.file, {
+        location: item.location,
+        replication: item.replication,
+        signal,
+        onStep: setStep,
+        // Keeps the journaled request tied to this item while its receipt is pending
+        onStorageRequestSubmitted: (key) => updateItem(item.id, { fileKey: key }),
+        onStorageRequestIssued: (key) => {
+          issuedFileKey = key;
+          updateItem(item.id, { fileKey: key });
+        },
+      }));
+    }
+
+    // The storage request may already be fulfilled when resuming after the MSP accepted the file
+    if (journalEntry?.stage !== 'confirming') {
+      setStep('confirming');
+      await waitForMSPConfirmOnChain(fileKey, signal);
+      // Follow BSPs from here, while the storage request is most likely still on chain
+      trackReplication(item.id, fileKey);
+    }
+
+    setStep('finalizing');
+    await waitForBackendFileReady(item.bucketId, fileKey, signal);
+
+    setStep('done');
+    await removeUploadJournalEntry(fileKey);
+    // A resumed upload was confirmed before the reload; the file being ready stands in for that confirmation
+    if (journalEntry?.stage === 'confirming') {
+      trackReplication(item.id, fileKey);
+    }
+  } catch (err) {
+    if (signal.aborted) {
+      await finishCancellation(item.id, issuedFileKey);
+      return;
+    }
+    updateItem(item.id, {
+      failedStep: currentStep,
+      progress: { step: 'error', message: err instanceof Error ? err.message : STEP_MESSAGES.error },
+    });
+  } finally {
+    abortControllers.delete(item.id);
+  }
+}
+
+// Follow BSP confirmations in the background, without holding an upload slot
+function trackReplication(id: string, fileKey: string) {
+  // A retried item replaces the tracker of its earlier attempt
+  bspTrackers.get(id)?.abort();
+  const controller = new AbortController();
+  bspTrackers.set(id, controller);
+
+  trackBspConfirmations(fileKey, (status) => updateItem(id, { bspConfirmation: status }), controller.signal)
+    .catch((err) => {
+      if (controller.signal.aborted) return;
+      updateItem(id, { bspTrackingError: err instanceof Error ? err.message : 'Failed to track BSP confirmations' });
+    })
+    .finally(() => {
+      if (bspTrackers.get(id) === controller) bspTrackers.delete(id);
+    });
+}
+
+// Revoke the storage request of a cancelled upload, if one was already issued
+async function finishCancellation(id: string, fileKey: string | undefined) {
+  if (!fileKey) {
+    updateItem(id, { progress: { step: 'cancelled', message: STEP_MESSAGES.cancelled } });
+    return;
+  }
+
+  try {
+    await revokeStorageRequest(fileKey);
+    await removeUploadJournalEntry(fileKey);
+    updateItem(id, { progress: { step: 'revoked', message: STEP_MESSAGES.revoked } });
+  } catch (err) {
+    updateItem(id, {
+      failedStep: 'cancelling',
+      progress: {
+        step: 'error',
+        message: `Failed to revoke storage request: ${err instanceof Error ? err.message : 'unknown error'}`,
+      },
+    });
+  }
+}
+
+// Start queued uploads until the concurrency limit is reached
+function pump() {
+  while (activeCount < MAX_CONCURRENT_UPLOADS) {
+    const next = queue.find((item) => item.progress.step === 'idle');
+    if (!next) return;
+
+    // Mark as started right away so the next iteration doesn't pick it again
+    activeCount++;
+    updateItem(next.id, { progress: { step: 'preparing', message: STEP_MESSAGES.preparing } });
+    processItem(next).finally(() => {
+      activeCount--;
+      pump();
+    });
+  }
+}
+
+// Get the current upload queue
+export function getUploadQueue(): UploadQueueItem[] {
+  return queue;
+}
+
+// Subscribe to changes in the upload queue
+export function subscribeToUploadQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Add files to the queue and start uploading them
+export function enqueueUploads(
+  bucketId: string,
+  sources: UploadSource[],
+  replication: FileReplication = DEFAULT_REPLICATION
+) {
+  const items: UploadQueueItem[] = sources.map(({ file, location }) => ({
+    id: `upload-${nextId++}`,
+    bucketId,
+    file,
+    location,
+    replication,
+    progress: { step: 'idle', message: STEP_MESSAGES.idle },
+  }));
+
+  queue = [...queue, ...items];
+  notify();
+  pump();
+}
+
+// Queue an interrupted upload from the journal, using the file the user selected again
+export function resumeUpload(entry: UploadJournalEntry, file: File) {
+  if (queue.some((item) => item.fileKey === entry.fileKey && item.progress.step !== 'error')) return;
+
+  queue = [
+    ...queue.filter((item) => item.fileKey !== entry.fileKey),
+    {
+      id: `upload-${nextId++}`,
+      bucketId: entry.bucketId,
+      file,
+      location: entry.location,
+      replication: getFileReplication(entry.fileKey) ?? DEFAULT_REPLICATION,
+      fileKey: entry.fileKey,
+      progress: { step: 'idle', message: STEP_MESSAGES.idle },
+    },
+  ];
+  notify();
+  pump();
+}
+
+// Put a failed upload back in the queue
+export function retryUpload(id: string) {
+  const item = queue.find((i) => i.id === id);
+  if (!item || item.progress.step !== 'error') return;
+
+  // Keep the file key so a journaled storage request is resumed rather than issued again
+  updateItem(id, {
+    failedStep: undefined,
+    progress: { step: 'idle', message: STEP_MESSAGES.idle },
+  });
+  pump();
+}
+
+// Drop a failed or not yet started upload from the queue
+export function skipUpload(id: string) {
+  const item = queue.find((i) => i.id === id);
+  if (!item || (item.progress.step !== 'error' && item.progress.step !== 'idle')) return;
+
+  queue = queue.filter((i) => i.id !== id);
+  notify();
+}
+
+// Whether an upload is still in flight and not yet confirmed by the MSP
+export function isUploadCancellable(item: UploadQueueItem): boolean {
+  return abortControllers.has(item.id) && CANCELLABLE_STEPS.includes(item.progress.step);
+}
+
+// Cancel an in-flight upload, revoking its storage request once it has been issued
+export function cancelUpload(id: string) {
+  const item = queue.find((i) => i.id === id);
+  const controller = abortControllers.get(id);
+  if (!item || !controller || !isUploadCancellable(item)) return;
+
+  updateItem(id, { progress: { step: 'cancelling', message: STEP_MESSAGES.cancelling } });
+  controller.abort(new DOMException('Upload cancelled', 'AbortError'));
+}
+
+// Remove finished uploads from the queue
+export function clearFinishedUploads() {
+  const finishedSteps: FileUploadProgress['step'][] = ['done', 'cancelled', 'revoked'];
+  const finished = queue.filter((item) => finishedSteps.includes(item.progress.step));
+
+  // Stop tracking replication for uploads that are no longer shown
+  finished.forEach((item) => bspTrackers.get(item.id)?.abort());
+  queue = queue.filter((item) => !finishedSteps.includes(item.progress.step));
+  notify();
+}
@@ -4,20 +4,61 @@ import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 import { StatusBadge } from '../components/StatusBadge';
 import { ProgressStepper } from '../components/ProgressStepper';
+import { GasFeeModal } from '../components/GasFeeModal';
+import { MoveBucketModal } from '../components/MoveBucketModal';
 import {
+  validateBucketName,
+  previewBucketName,
   createBucket,
+  estimateCreateBucketGas,
+  estimateDeleteBucketGas,
+  estimateUpdateBucketPrivacyGas,
   verifyBucketCreation,
-  waitForBackendBucketReady,
+  finishBucketCreation,
   deleteBucket,
+  finishBucketDeletion,
+  estimateEmptyAndDeleteBucketGas,
+  emptyAndDeleteBucket,
+  updateBucketPrivacy,
+  verifyBucketPrivacy,
   getBucketsFromMSP,
+  getStoragePricing,
+  getBucketStoredBytes,
+  calculateStorageCost,
 } from '../operations';
 import { EyeIcon, TrashIcon } from '../components/Icons';
 import { SplitLayout } from '../components/SplitLayout';
 import { bucketSnippets } from '../config/codeSnippets';
-import type { Bucket, BucketInfo, BucketCreationProgress } from '../types';
+import { formatBytes, formatTokenAmount } from '../utils/formatting';
+import type {
+  Bucket,
+  BucketEmptyingProgress,
+  BucketInfo,
+  BucketCreationProgress,
+  BucketNamePreview,
+  GasEstimate,
+  StoragePricing,
+  ValueProp,
+} from '../types';
+
+// Wait this long after the last keystroke before looking up the bucket ID
+const NAME_CHECK_DEBOUNCE_MS = 400;
+
+// Characters suggested for bucket names so they stay readable and usable in paths.
+// The chain accepts any bytes, so this is only a hint.
+const SUGGESTED_BUCKET_NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+// A transaction waiting for the user to confirm its fees
+interface GasConfirmation {
+  title: string;
+  estimate: GasEstimate;
+  transactionCount?: number;
+  onConfirm: () => void;
+}
 
 export function Buckets() {
-  const { isAuthenticated, isMspConnected, handleAuthError } = useAppState();
+  const { isAuthenticated, isMspConnected, handleAuthError, recoveredTransactions, networkKey, networks } =
+    useAppState();
 
   const [buckets, setBuckets] = useState<Bucket[]>([]);
   const [selectedBucket, setSelectedBucket] = useState<BucketInfo | null>(null);
@@ -36,6 +77,47 @@ export function Buckets() {
     step: 'idle',
     message: '',
   });
+  const [isEstimatingGas, setIsEstimatingGas] = useState(false);
+  const [gasConfirmation, setGasConfirmation] = useState<GasConfirmation | null>(null);
+  const [storagePricing, setStoragePricing] = useState<StoragePricing | null>(null);
+  const [namePreview, setNamePreview] = useState<BucketNamePreview | null>(null);
+  const [namePreviewError, setNamePreviewError] = useState<{ bucketName: string; message: string } | null>(null);
+  const [bucketSizes, setBucketSizes] = useState<Record<string, number>>({});
+  const [selectedValuePropId, setSelectedValuePropId] = useState('');
+  const [isUpdatingPrivacy, setIsUpdatingPrivacy] = useState(false);
+  const [isMoveOpen, setIsMoveOpen] = useState(false);
+  const [emptyingProgress, setEmptyingProgress] = useState<BucketEmptyingProgress | null>(null);
+
+  const valueProps = storagePricing?.valueProps ?? [];
+
+  // Validate the name as it's typed; the preview only applies to the name it was derived for
+  const trimmedBucketName = bucketName.trim();
+  const nameError = trimmedBucketName && isMspConnected ? validateBucketName(trimmedBucketName) : null;
+  const showNameHint = !!trimmedBucketName && !nameError && !SUGGESTED_BUCKET_NAME_PATTERN.test(trimmedBucketName);
+  const currentPreview = namePreview?.bucketName === trimmedBucketName ? namePreview : null;
+  const currentPreviewError =
+    namePreviewError?.bucketName === trimmedBucketName ? namePreviewError.message : null;
+  const isCheckingName = !!trimmedBucketName && !nameError && !currentPreview && !currentPreviewError;
+
+  // Fall back to the first available value proposition until the user picks one
+  const valuePropId = selectedValuePropId || valueProps.find((vp) => vp.isAvailable)?.id || '';
+
+  const selectedValueProp = valueProps.find((vp) => vp.id === selectedBucket?.valuePropositionId) ?? null;
+
+  const { symbol, decimals } = networks[networkKey].nativeCurrency;
+  // Running monthly MSP cost of the data currently stored in a bucket.
+  // BSP fees depend on each file's replication, which the bucket listing doesn't carry.
+  const getMonthlyCost = (bucket: Bucket) => {
+    const valueProp = valueProps.find((vp) => vp.id === bucket.valuePropId);
+    const size = bucketSizes[bucket.bucketId];
+    if (!valueProp || !storagePricing || size === undefined) return '—';
+
+    const { perMonth } = calculateStorageCost(size, valueProp, storagePricing);
+    return formatTokenAmount(perMonth, decimals, symbol);
+  };
+
+  const formatPrice = (valueProp: ValueProp) =>
+    `${formatTokenAmount(BigInt(Math.round(valueProp.pricePerGbBlock)), decimals, symbol)} per GB per block`;
 
   const loadBuckets = useCallback(async () => {
     if (!isMspConnected) return;
@@ -44,6 +126,17 @@ export function Buckets() {
     try {
       const data = await getBucketsFromMSP();
       setBuckets(data);
+
+      // Sizes only feed the cost estimate, so buckets whose files can't be listed are skipped
+      const sizes = await Promise.allSettled(data.map((bucket) => getBucketStoredBytes(bucket.bucketId)));
+      setBucketSizes(
+        Object.fromEntries(
+          data.flatMap((bucket, i) => {
+            const size = sizes[i];
+            return size.status === 'fulfilled' ? [[bucket.bucketId, size.value]] : [];
+          })
+        )
+      );
     } catch (err) {
       if (!handleAuthError(err)) {
         setError(err instanceof Error ? err.message : 'Failed to load buckets');
@@ -53,11 +146,50 @@ export function Buckets() {
     }
   }, [isMspConnected, handleAuthError]);
 
+  const loadStoragePricing = useCallback(async () => {
+    if (!isMspConnected) return;
+    try {
+      setStoragePricing(await getStoragePricing());
+    } catch (err) {
+      if (!handleAuthError(err)) {
+        setError(err instanceof Error ? err.message : 'Failed to load value propositions');
+      }
+    }
+  }, [isMspConnected, handleAuthError]);
+
+  // Look up the derived bucket ID once the user stops typing
+  useEffect(() => {
+    if (!trimmedBucketName || nameError || !isMspConnected) return;
+
+    let isCurrent = true;
+    const timer = setTimeout(() => {
+      previewBucketName(trimmedBucketName)
+        .then((preview) => isCurrent && setNamePreview(preview))
+        .catch(
+          (err) =>
+            isCurrent &&
+            setNamePreviewError({
+              bucketName: trimmedBucketName,
+              message: err instanceof Error ? err.message : 'Failed to check bucket name',
+            })
+        );
+    }, NAME_CHECK_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [trimmedBucketName, nameError, isMspConnected]);
+
+  // Reload when a bucket transaction resumed after a page reload has finished
+  const recoveredCount = recoveredTransactions.filter((tx) => tx.status === 'done').length;
+
   useEffect(() => {
     if (isMspConnected) {
       loadBuckets();
+      loadStoragePricing();
     }
-  }, [isMspConnected, loadBuckets]);
+  }, [isMspConnected, loadBuckets, loadStoragePricing, recoveredCount]);
 
   const handleViewBucket = async (bucketId: string) => {
     setSelectedBucketId(bucketId);
@@ -73,24 +205,84 @@ export function Buckets() {
     }
   };
 
+  const handleTogglePrivacy = async () => {
+    if (!selectedBucket || !selectedBucketId) return;
+    const bucketId = selectedBucketId;
+    const isPrivate = !selectedBucket.private;
+
+    setIsUpdatingPrivacy(true);
+    setError(null);
+    try {
+      // Show the fee presets before anything is sent
+      const estimate = await estimateUpdateBucketPrivacyGas(bucketId, isPrivate);
+      setGasConfirmation({
+        title: isPrivate ? 'Confirm Making Bucket Private' : 'Confirm Making Bucket Public',
+        estimate,
+        onConfirm: () => handleConfirmTogglePrivacy(bucketId, isPrivate),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to estimate gas');
+    } finally {
+      setIsUpdatingPrivacy(false);
+    }
+  };
+
+  const handleConfirmTogglePrivacy = async (bucketId: string, isPrivate: boolean) => {
+    setGasConfirmation(null);
+    setIsUpdatingPrivacy(true);
+    try {
+      await updateBucketPrivacy(bucketId, isPrivate);
+      // Re-read the bucket from chain so the modal shows the confirmed state
+      const info = await verifyBucketPrivacy(bucketId, isPrivate);
+      setSelectedBucket(info);
+      // The MSP backend may index the change later, so update the list badge directly
+      setBuckets((prev) => prev.map((b) => (b.bucketId === bucketId ? { ...b, isPublic: !isPrivate } : b)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update bucket privacy');
+    } finally {
+      setIsUpdatingPrivacy(false);
+    }
+  };
+
+  const handleBucketMoved = (mspId: string) => {
+    setSelectedBucket((prev) => (prev ? { ...prev, mspId } : prev));
+    // The bucket is no longer stored by the connected MSP
+    loadBuckets();
+  };
+
   const handleCreateBucket = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!bucketName.trim()) return;
+    if (!bucketName.trim() || nameError || !currentPreview || currentPreview.exists) return;
 
     setError(null);
+    setIsEstimatingGas(true);
+    try {
+      // Show the fee presets before anything is sent
+      const estimate = await estimateCreateBucketGas(trimmedBucketName, isPrivate, valuePropId || undefined);
+      setGasConfirmation({ title: 'Confirm Bucket Creation', estimate, onConfirm: handleConfirmCreateBucket });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to estimate gas');
+    } finally {
+      setIsEstimatingGas(false);
+    }
+  };
+
+  const handleConfirmCreateBucket = async () => {
+    setGasConfirmation(null);
 
     try {
       // Step 1: Create bucket on-chain
       setCreateProgress({ step: 'creating', message: 'Creating bucket on-chain...' });
-      const { bucketId } = await createBucket(bucketName, isPrivate);
+      const { bucketId } = await createBucket(trimmedBucketName, isPrivate, valuePropId || undefined);
 
-      // Step 2: Verify on-chain
-      setCreateProgress({ step: 'verifying', message: 'Verifying bucket on-chain...' });
-      await verifyBucketCreation(bucketId);
-
-      // Step 3: Wait for backend
-      setCreateProgress({ step: 'waiting', message: 'Waiting for backend to index...' });
-      await waitForBackendBucketReady(bucketId);
+      // Step 2: Verify on-chain, Step 3: Wait for backend
+      await finishBucketCreation(bucketId, (step) =>
+        setCreateProgress(
+          step === 'verifying'
+            ? { step, message: 'Verifying bucket on-chain...' }
+            : { step, message: 'Waiting for backend to index...' }
+        )
+      );
 
       // Done
       setCreateProgress({ step: 'done', message: 'Bucket created successfully!' });
@@ -113,12 +305,29 @@ export function Buckets() {
   };
 
   const handleDeleteBucket = async (bucketId: string) => {
-    if (!confirm('Are you sure you want to delete this bucket?')) return;
-
     setIsDeleting(bucketId);
     setError(null);
+    try {
+      // The fee confirmation doubles as the delete confirmation
+      const estimate = await estimateDeleteBucketGas(bucketId);
+      setGasConfirmation({
+        title: 'Confirm Bucket Deletion',
+        estimate,
+        onConfirm: () => handleConfirmDeleteBucket(bucketId),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to estimate gas');
+    } finally {
+      setIsDeleting(null);
+    }
+  };
+
+  const handleConfirmDeleteBucket = async (bucketId: string) => {
+    setGasConfirmation(null);
+    setIsDeleting(bucketId);
     try {
       await deleteBucket(bucketId);
+      await finishBucketDeletion(bucketId);
       await loadBuckets();
       if (selectedBucketId === bucketId) {
         setSelectedBucket(null);
@@ -131,6 +340,47 @@ export function Buckets() {
     }
   };
 
+  const handleEmptyAndDeleteBucket = async (bucket: Bucket) => {
+    const name = bucket.name || bucket.bucketId;
+
+    setIsDeleting(bucket.bucketId);
+    setError(null);
+    try {
+      // One transaction per file plus the bucket deletion, all confirmed up front
+      const { estimate, transactionCount } = await estimateEmptyAndDeleteBucketGas(bucket.bucketId);
+      setGasConfirmation({
+        title: `Delete ${name} and All Its Files`,
+        estimate,
+        transactionCount,
+        onConfirm: () => handleConfirmEmptyAndDeleteBucket(bucket),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to estimate gas');
+    } finally {
+      setIsDeleting(null);
+    }
+  };
+
+  const handleConfirmEmptyAndDeleteBucket = async (bucket: Bucket) => {
+    setGasConfirmation(null);
+    setIsDeleting(bucket.bucketId);
+    try {
+      await emptyAndDeleteBucket(bucket.bucketId, setEmptyingProgress);
+      if (selectedBucketId === bucket.bucketId) {
+        setSelectedBucket(null);
+        setSelectedBucketId(null);
+      }
+    } catch {
+      // Failure is reported in the progress modal
+    } finally {
+      setIsDeleting(null);
+      await loadBuckets();
+    }
+  };
+
+  const isEmptyingBucket =
+    emptyingProgress !== null && emptyingProgress.step !== 'done' && emptyingProgress.step !== 'error';
+
   const getProgressSteps = () => {
     const steps = [
       { label: 'Creating bucket on-chain...', status: 'pending' as const },
@@ -210,6 +460,23 @@ export function Buckets() {
                   createProgress.step !== 'idle' && createProgress.step !== 'done' && createProgress.step !== 'error'
                 }
               />
+              {nameError && <p className="text-xs text-red-400 mt-1">{nameError}</p>}
+              {showNameHint && (
+                <p className="text-xs text-yellow-400 mt-1">
+                  Letters, digits, dots, dashes and underscores keep names readable and usable in paths.
+                </p>
+              )}
+              {currentPreviewError && <p className="text-xs text-red-400 mt-1">{currentPreviewError}</p>}
+              {isCheckingName && <p className="text-xs text-dh-400 mt-1">Checking bucket name...</p>}
+              {currentPreview && (
+                <div className="mt-2 bg-dh-900 rounded-lg p-3">
+                  <p className="text-xs text-dh-400 mb-1">Bucket ID</p>
+                  <p className="text-xs font-mono text-dh-200 break-all">{currentPreview.bucketId}</p>
+                  <p className={`text-xs mt-1 ${currentPreview.exists ? 'text-red-400' : 'text-green-400'}`}>
+                    {currentPreview.exists ? 'You already have a bucket with this name.' : 'This name is available.'}
+                  </p>
+                </div>
+              )}
             </div>
 
             <div>
@@ -246,13 +513,56 @@ export function Buckets() {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-dh-200 mb-2">Value Proposition</label>
+              {valueProps.length === 0 ? (
+                <p className="text-xs text-dh-400">Loading the MSP's pricing terms...</p>
+              ) : (
+                <div className="space-y-2">
+                  {valueProps.map((valueProp) => (
+                    <button
+                      key={valueProp.id}
+                      type="button"
+                      onClick={() => setSelectedValuePropId(valueProp.id)}
+                      disabled={
+                        !valueProp.isAvailable ||
+                        (createProgress.step !== 'idle' && createProgress.step !== 'done' && createProgress.step !== 'error')
+                      }
+                      className={`w-full px-3 py-2 rounded-lg border text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                        valuePropId === valueProp.id
+                          ? 'bg-sage-600/20 border-sage-600'
+                          : 'bg-dh-900 border-dh-700 hover:border-dh-600'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm text-white">{formatPrice(valueProp)}</span>
+                        <StatusBadge
+                          status={valueProp.isAvailable ? 'ready' : 'unhealthy'}
+                          label={valueProp.isAvailable ? 'Available' : 'Unavailable'}
+                        />
+                      </div>
+                      <p className="text-xs text-dh-300 mt-1">
+                        Up to {formatBytes(valueProp.dataLimitPerBucketBytes)} per bucket
+                      </p>
+                      <p className="text-xs font-mono text-dh-400 truncate">{valueProp.id}</p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
             <Button
               type="submit"
               isLoading={
-                createProgress.step !== 'idle' && createProgress.step !== 'done' && createProgress.step !== 'error'
+                isEstimatingGas ||
+                (createProgress.step !== 'idle' && createProgress.step !== 'done' && createProgress.step !== 'error')
               }
               disabled={
                 !bucketName.trim() ||
+                !!nameError ||
+                !currentPreview ||
+                currentPreview.exists ||
+                !valuePropId ||
                 (createProgress.step !== 'idle' && createProgress.step !== 'done' && createProgress.step !== 'error')
               }
               className="w-full"
@@ -290,6 +600,8 @@ export function Buckets() {
                     <tr className="border-b border-dh-700">
                       <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Name</th>
                       <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Bucket ID</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Privacy</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Est. Monthly MSP Cost</th>
                       <th className="text-right py-3 px-4 text-sm font-medium text-dh-300">Actions</th>
                     </tr>
                   </thead>
@@ -303,6 +615,13 @@ export function Buckets() {
                       >
                         <td className="py-3 px-4 text-sm text-white">{bucket.name || 'Unnamed'}</td>
                         <td className="py-3 px-4 text-sm font-mono text-dh-200">{truncateHash(bucket.bucketId)}</td>
+                        <td className="py-3 px-4">
+                          <StatusBadge
+                            status={bucket.isPublic ? 'healthy' : 'pending'}
+                            label={bucket.isPublic ? 'Public' : 'Private'}
+                          />
+                        </td>
+                        <td className="py-3 px-4 text-sm font-mono text-dh-200">{getMonthlyCost(bucket)}</td>
                         <td className="py-3 px-4 text-right">
                           <div className="flex items-center justify-end gap-1">
                             <button
@@ -324,6 +643,18 @@ export function Buckets() {
                             >
                               <TrashIcon />
                             </button>
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              onClick={() => {
+                                setActiveSnippet('emptyAndDeleteBucket');
+                                handleEmptyAndDeleteBucket(bucket);
+                              }}
+                              disabled={isDeleting !== null}
+                              title="Delete bucket and all contents"
+                            >
+                              Delete All
+                            </Button>
                           </div>
                         </td>
                       </tr>
@@ -341,7 +672,7 @@ export function Buckets() {
         <div
           className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
           onClick={() => {
-            if (!isLoadingBucketInfo) {
+            if (!isLoadingBucketInfo && !isUpdatingPrivacy) {
               setSelectedBucket(null);
               setSelectedBucketId(null);
             }
@@ -359,7 +690,7 @@ export function Buckets() {
                   setSelectedBucketId(null);
                 }}
                 className="text-dh-300 hover:text-white transition-colors"
-                disabled={isLoadingBucketInfo}
+                disabled={isLoadingBucketInfo || isUpdatingPrivacy}
               >
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -367,6 +698,11 @@ export function Buckets() {
               </button>
             </div>
             <div className="p-4">
+              {error && (
+                <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 mb-4 text-sm text-red-400">
+                  {error}
+                </div>
+              )}
               {isLoadingBucketInfo ? (
                 <div className="text-center py-8 text-dh-300">Loading bucket details...</div>
               ) : selectedBucket ? (
@@ -380,15 +716,41 @@ export function Buckets() {
                     <p className="text-sm font-mono text-dh-200 break-all">{selectedBucket.userId}</p>
                   </div>
                   <div className="bg-dh-900 rounded-lg p-4">
-                    <p className="text-xs text-dh-400 mb-1">MSP ID</p>
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <p className="text-xs text-dh-400">MSP ID</p>
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => {
+                          setActiveSnippet('requestMoveBucket');
+                          setIsMoveOpen(true);
+                        }}
+                        disabled={isUpdatingPrivacy}
+                      >
+                        Move
+                      </Button>
+                    </div>
                     <p className="text-sm font-mono text-dh-200 break-all">{selectedBucket.mspId}</p>
                   </div>
                   <div className="bg-dh-900 rounded-lg p-4">
                     <p className="text-xs text-dh-400 mb-1">Privacy</p>
-                    <StatusBadge
-                      status={selectedBucket.private ? 'pending' : 'healthy'}
-                      label={selectedBucket.private ? 'Private' : 'Public'}
-                    />
+                    <div className="flex items-center justify-between gap-2">
+                      <StatusBadge
+                        status={selectedBucket.private ? 'pending' : 'healthy'}
+                        label={selectedBucket.private ? 'Private' : 'Public'}
+                      />
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => {
+                          setActiveSnippet('updateBucketPrivacy');
+                          handleTogglePrivacy();
+                        }}
+                        isLoading={isUpdatingPrivacy}
+                      >
+                        {selectedBucket.private ? 'Make Public' : 'Make Private'}
+                      </Button>
+                    </div>
                   </div>
                   {selectedBucket.root && (
                     <div className="bg-dh-900 rounded-lg p-4">
@@ -397,9 +759,23 @@ export function Buckets() {
                     </div>
                   )}
                   {selectedBucket.valuePropositionId && (
-                    <div className="bg-dh-900 rounded-lg p-4">
-                      <p className="text-xs text-dh-400 mb-1">Value Proposition ID</p>
-                      <p className="text-sm font-mono text-dh-200 break-all">{selectedBucket.valuePropositionId}</p>
+                    <div className="bg-dh-900 rounded-lg p-4 md:col-span-2">
+                      <p className="text-xs text-dh-400 mb-1">Value Proposition</p>
+                      {selectedValueProp ? (
+                        <div className="space-y-1">
+                          <p className="text-sm text-dh-200">{formatPrice(selectedValueProp)}</p>
+                          <p className="text-sm text-dh-200">
+                            Up to {formatBytes(selectedValueProp.dataLimitPerBucketBytes)} per bucket
+                          </p>
+                          <StatusBadge
+                            status={selectedValueProp.isAvailable ? 'ready' : 'unhealthy'}
+                            label={selectedValueProp.isAvailable ? 'Available' : 'No longer offered'}
+                          />
+                        </div>
+                      ) : null}
+                      <p className="text-xs font-mono text-dh-400 break-all mt-1">
+                        {selectedBucket.valuePropositionId}
+                      </p>
                     </div>
                   )}
                 </div>
@@ -408,6 +784,105 @@ export function Buckets() {
           </div>
         </div>
       )}
+
+      {/* Delete Bucket and Contents Modal */}
+      {emptyingProgress && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+          <div className="bg-dh-800 border border-dh-700 rounded-lg w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-4 border-b border-dh-700">
+              <h3 className="text-lg font-semibold text-white">Delete Bucket and Contents</h3>
+              <button
+                onClick={() => setEmptyingProgress(null)}
+                className="text-dh-300 hover:text-white disabled:opacity-50 transition-colors"
+                disabled={isEmptyingBucket}
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-dh-200">{emptyingProgress.message}</span>
+                <StatusBadge
+                  status={
+                    emptyingProgress.step === 'done'
+                      ? 'ready'
+                      : emptyingProgress.step === 'error'
+                        ? 'error'
+                        : 'pending'
+                  }
+                  label={
+                    emptyingProgress.step === 'done'
+                      ? 'Done'
+                      : emptyingProgress.step === 'error'
+                        ? 'Failed'
+                        : 'In Progress'
+                  }
+                />
+              </div>
+
+              {emptyingProgress.total > 0 && (
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between text-xs text-dh-400">
+                    <span>Files deleted</span>
+                    <span>
+                      {emptyingProgress.deleted} / {emptyingProgress.total}
+                    </span>
+                  </div>
+                  <div className="w-full bg-dh-900 rounded-full h-2">
+                    <div
+                      className="bg-sage-500 h-2 rounded-full transition-all"
+                      style={{
+                        width: `${((emptyingProgress.deleted + emptyingProgress.failures.length) / emptyingProgress.total) * 100}%`,
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {emptyingProgress.failures.length > 0 && (
+                <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 space-y-2">
+                  <p className="text-sm text-red-400">{emptyingProgress.failures.length} files could not be deleted:</p>
+                  {emptyingProgress.failures.map((failure) => (
+                    <div key={failure.fileKey}>
+                      <p className="text-xs font-mono text-dh-200 break-all">{failure.location}</p>
+                      <p className="text-xs text-red-400">{failure.error}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {!isEmptyingBucket && (
+                <Button variant="secondary" onClick={() => setEmptyingProgress(null)} className="w-full">
+                  Close
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Move Bucket Modal */}
+      {isMoveOpen && selectedBucket && selectedBucketId && (
+        <MoveBucketModal
+          bucketId={selectedBucketId}
+          currentMspId={selectedBucket.mspId}
+          onMoved={handleBucketMoved}
+          onClose={() => setIsMoveOpen(false)}
+        />
+      )}
+
+      {/* Gas Fee Confirmation Modal */}
+      {gasConfirmation && (
+        <GasFeeModal
+          title={gasConfirmation.title}
+          estimate={gasConfirmation.estimate}
+          transactionCount={gasConfirmation.transactionCount}
+          onConfirm={gasConfirmation.onConfirm}
+          onClose={() => setGasConfirmation(null)}
+        />
+      )}
     </SplitLayout>
   );
 }
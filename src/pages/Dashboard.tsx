@@ -1,21 +1,29 @@
 import { useState, useEffect } from 'react';
 import { useAppState } from '../hooks/useAppState';
+import { useBalance } from '../hooks/useBalance';
 import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 import { StatusBadge } from '../components/StatusBadge';
 import { SplitLayout } from '../components/SplitLayout';
+import { WalletPicker } from '../components/WalletPicker';
+import { DevSignerForm } from '../components/DevSignerForm';
+import { MspPicker } from '../components/MspPicker';
 import { dashboardSnippets } from '../config/codeSnippets';
-import type { HealthStatus } from '../types';
+import { formatTokenAmount } from '../utils/formatting';
+import type { HealthStatus, MspSelection } from '../types';
 
 export function Dashboard() {
   const {
     isWalletConnected,
+    isDevSigner,
     isMspConnected,
     isAuthenticated,
     address,
     mspInfo,
+    mspUrl,
     userProfile,
     connectWallet,
+    connectDevSigner,
     connectMsp,
     authenticateUser,
     getMspHealthStatus,
@@ -23,11 +31,21 @@ export function Dashboard() {
     isLoading,
     error,
     clearError,
+    networkKey,
+    networks,
   } = useAppState();
 
   const [healthStatus, setHealthStatus] = useState<HealthStatus | null>(null);
   const [healthLoading, setHealthLoading] = useState(false);
   const [activeSnippet, setActiveSnippet] = useState('connectWallet');
+  const [isWalletPickerOpen, setIsWalletPickerOpen] = useState(false);
+  const [isDevSignerOpen, setIsDevSignerOpen] = useState(false);
+  const [isMspPickerOpen, setIsMspPickerOpen] = useState(false);
+
+  const balance = useBalance();
+
+  const isDevelopmentNetwork = !!networks[networkKey]?.isDevelopment;
+  const { symbol, decimals } = networks[networkKey].nativeCurrency;
 
   // Auto-check health when MSP is connected
   useEffect(() => {
@@ -48,6 +66,34 @@ export function Dashboard() {
     }
   };
 
+  const handleWalletSelect = async (rdns: string | null) => {
+    setIsWalletPickerOpen(false);
+    try {
+      await connectWallet(rdns);
+    } catch {
+      // Error is handled by context
+    }
+  };
+
+  const handleDevSignerConnect = async (secret: string, addressIndex: number) => {
+    setIsDevSignerOpen(false);
+    try {
+      await connectDevSigner(secret, addressIndex);
+    } catch {
+      // Error is handled by context
+    }
+  };
+
+  const handleMspSelect = async (selection: MspSelection) => {
+    setIsMspPickerOpen(false);
+    try {
+      await connectMsp(selection);
+      await checkHealth();
+    } catch {
+      // Error is handled by context
+    }
+  };
+
   const truncateHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-8)}`;
 
   return (
@@ -91,7 +137,10 @@ export function Dashboard() {
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <span className="text-sm text-dh-300">Status</span>
-              <StatusBadge status={isWalletConnected ? 'connected' : 'disconnected'} />
+              <StatusBadge
+                status={isWalletConnected ? 'connected' : 'disconnected'}
+                label={isWalletConnected && isDevSigner ? 'Dev Signer' : undefined}
+              />
             </div>
 
             {isWalletConnected && address && (
@@ -101,14 +150,37 @@ export function Dashboard() {
               </div>
             )}
 
+            {isWalletConnected && balance !== null && (
+              <div className="bg-dh-900 rounded-lg p-3">
+                <p className="text-xs text-dh-400 mb-1">Balance</p>
+                <p className="text-sm font-mono text-dh-200">{formatTokenAmount(balance, decimals, symbol)}</p>
+                {balance === BigInt(0) && (
+                  <p className="text-xs text-yellow-400 mt-1">
+                    Fund this account with {symbol} to pay for transactions and storage deposits.
+                  </p>
+                )}
+              </div>
+            )}
+
             <Button
-              onClick={isWalletConnected ? disconnect : connectWallet}
+              onClick={isWalletConnected ? disconnect : () => setIsWalletPickerOpen(true)}
               isLoading={isLoading}
               variant={isWalletConnected ? 'secondary' : 'primary'}
               className="w-full"
             >
               {isWalletConnected ? 'Disconnect' : 'Connect Wallet'}
             </Button>
+
+            {isDevelopmentNetwork && !isWalletConnected && (
+              <Button
+                onClick={() => setIsDevSignerOpen(true)}
+                isLoading={isLoading}
+                variant="secondary"
+                className="w-full"
+              >
+                Use Dev Signer
+              </Button>
+            )}
           </div>
         </Card>
 
@@ -136,6 +208,12 @@ export function Dashboard() {
                   <p className="text-xs text-dh-400">MSP ID</p>
                   <p className="text-sm font-mono text-dh-200">{truncateHash(mspInfo.mspId)}</p>
                 </div>
+                {mspUrl && (
+                  <div>
+                    <p className="text-xs text-dh-400">Backend URL</p>
+                    <p className="text-sm font-mono text-dh-200 break-all">{mspUrl}</p>
+                  </div>
+                )}
                 {mspInfo.version && (
                   <div>
                     <p className="text-xs text-dh-400">Version</p>
@@ -146,13 +224,23 @@ export function Dashboard() {
             )}
 
             <Button
-              onClick={connectMsp}
+              onClick={() => connectMsp()}
               isLoading={isLoading || healthLoading}
               disabled={!isWalletConnected || isMspConnected}
               className="w-full"
             >
               {isMspConnected ? 'Connected' : 'Connect to MSP'}
             </Button>
+
+            <Button
+              onClick={() => setIsMspPickerOpen(true)}
+              isLoading={isLoading}
+              disabled={!isWalletConnected}
+              variant="secondary"
+              className="w-full"
+            >
+              {isMspConnected ? 'Switch MSP' : 'Choose MSP'}
+            </Button>
           </div>
         </Card>
 
@@ -205,6 +293,25 @@ export function Dashboard() {
           </div>
         </Card>
       )}
+
+      {/* Wallet Picker Modal */}
+      {isWalletPickerOpen && (
+        <WalletPicker onSelect={handleWalletSelect} onClose={() => setIsWalletPickerOpen(false)} />
+      )}
+
+      {/* MSP Picker Modal */}
+      {isMspPickerOpen && (
+        <MspPicker
+          currentMspId={mspInfo?.mspId}
+          onSelect={handleMspSelect}
+          onClose={() => setIsMspPickerOpen(false)}
+        />
+      )}
+
+      {/* Dev Signer Modal */}
+      {isDevSignerOpen && (
+        <DevSignerForm onConnect={handleDevSignerConnect} onClose={() => setIsDevSignerOpen(false)} />
+      )}
     </SplitLayout>
   );
 }
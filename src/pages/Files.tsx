@@ -4,20 +4,47 @@ import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 import { StatusBadge } from '../components/StatusBadge';
 import { ProgressStepper } from '../components/ProgressStepper';
+import { GasFeeModal } from '../components/GasFeeModal';
+import { ReplicationLevel } from '@storagehub-sdk/core';
 import {
+  DEFAULT_REPLICATION,
   getBucketsFromMSP,
-  uploadFile,
-  waitForMSPConfirmOnChain,
-  waitForBackendFileReady,
+  enqueueUploads,
+  estimateUploadGas,
+  retryUpload,
+  skipUpload,
+  isUploadCancellable,
+  cancelUpload,
+  resumeUpload,
+  clearFinishedUploads,
   downloadFile,
+  estimateDeleteFileGas,
   requestDeleteFile,
+  waitForBackendFileDeleted,
   getBucketFilesFromMSP,
   getFileInfo,
+  getStoragePricing,
+  calculateStorageCost,
 } from '../operations';
 import { InfoIcon, DownloadIcon, TrashIcon, FolderIcon, FileIcon } from '../components/Icons';
 import { SplitLayout } from '../components/SplitLayout';
 import { fileSnippets } from '../config/codeSnippets';
-import type { Bucket, FileUploadProgress } from '../types';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import { useUploadJournal } from '../hooks/useUploadJournal';
+import { removeUploadJournalEntry } from '../services/uploadJournalService';
+import { getFileReplication } from '../services/fileReplicationService';
+import { formatTokenAmount } from '../utils/formatting';
+import type {
+  Bucket,
+  BspConfirmationStatus,
+  FileReplication,
+  FileUploadProgress,
+  GasEstimate,
+  StoragePricing,
+  UploadJournalEntry,
+  UploadQueueItem,
+  UploadSource,
+} from '../types';
 import type { StorageFileInfo } from '@storagehub-sdk/msp-client';
 
 interface FileEntry {
@@ -28,8 +55,60 @@ interface FileEntry {
   type: 'file' | 'folder';
 }
 
+// Read every file below a dropped entry, keeping its path relative to the drop
+async function readEntry(entry: FileSystemEntry): Promise<UploadSource[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, location: entry.fullPath.replace(/^\/+/, '') }];
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+
+    // readEntries() returns results in batches until it yields an empty array
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+
+    const nested = await Promise.all(children.map(readEntry));
+    return nested.flat();
+  }
+
+  return [];
+}
+
+const REPLICATION_LEVELS: { level: ReplicationLevel; label: string }[] = [
+  { level: ReplicationLevel.Basic, label: 'Basic' },
+  { level: ReplicationLevel.Standard, label: 'Standard' },
+  { level: ReplicationLevel.HighSecurity, label: 'High Security' },
+  { level: ReplicationLevel.SuperHighSecurity, label: 'Super High Security' },
+  { level: ReplicationLevel.UltraHighSecurity, label: 'Ultra High Security' },
+  { level: ReplicationLevel.Custom, label: 'Custom' },
+];
+
+function formatReplication({ level, replicas }: FileReplication): string {
+  if (level === ReplicationLevel.Custom) {
+    return `Custom (${replicas} ${replicas === 1 ? 'replica' : 'replicas'})`;
+  }
+  return REPLICATION_LEVELS.find((r) => r.level === level)?.label ?? 'Unknown';
+}
+
+type StepperStep = { label: string; status: 'pending' | 'active' | 'completed' | 'error'; detail?: string };
+
+function formatBspConfirmation({ confirmed, required, fulfilled }: BspConfirmationStatus): string {
+  if (fulfilled && required === 0) {
+    return 'All replicas confirmed';
+  }
+  return `${confirmed} of ${required} replicas confirmed`;
+}
+
+const UPLOAD_STEPS: FileUploadProgress['step'][] = ['preparing', 'issuing', 'uploading', 'confirming', 'finalizing', 'done'];
+
 export function Files() {
-  const { isAuthenticated, isMspConnected, handleAuthError } = useAppState();
+  const { isAuthenticated, isMspConnected, handleAuthError, address, networkKey, networks } = useAppState();
 
   const [buckets, setBuckets] = useState<Bucket[]>([]);
   const [selectedBucketId, setSelectedBucketId] = useState<string>('');
@@ -44,12 +123,38 @@ export function Files() {
   const [activeSnippet, setActiveSnippet] = useState('listFiles');
 
   // File upload
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const [selectedUploadFile, setSelectedUploadFile] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState<FileUploadProgress>({
-    step: 'idle',
-    message: '',
-  });
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [selectedUploadFiles, setSelectedUploadFiles] = useState<UploadSource[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [replicationLevel, setReplicationLevel] = useState<ReplicationLevel>(DEFAULT_REPLICATION.level);
+  const [replicas, setReplicas] = useState(String(DEFAULT_REPLICATION.replicas));
+  const [expandedUploadId, setExpandedUploadId] = useState<string | null>(null);
+  const [isEstimatingGas, setIsEstimatingGas] = useState(false);
+  const [gasEstimate, setGasEstimate] = useState<GasEstimate | null>(null);
+  const [deleteConfirmation, setDeleteConfirmation] = useState<{ fileKey: string; estimate: GasEstimate } | null>(
+    null
+  );
+  const [storagePricing, setStoragePricing] = useState<StoragePricing | null>(null);
+  const uploadQueue = useUploadQueue();
+
+  // Aborts background waits when leaving the page
+  const unmountSignalRef = useRef<AbortSignal | undefined>(undefined);
+  useEffect(() => {
+    const controller = new AbortController();
+    unmountSignalRef.current = controller.signal;
+    return () => controller.abort();
+  }, []);
+
+  // Interrupted uploads: journaled storage requests that aren't being processed in this session
+  const uploadJournal = useUploadJournal();
+  const resumeInputRef = useRef<HTMLInputElement>(null);
+  const [resumeTarget, setResumeTarget] = useState<UploadJournalEntry | null>(null);
+  const interruptedUploads = uploadJournal.filter(
+    (entry) =>
+      entry.owner.toLowerCase() === address?.toLowerCase() &&
+      entry.networkKey === networkKey &&
+      !uploadQueue.some((item) => item.fileKey === entry.fileKey)
+  );
 
   const loadBuckets = useCallback(async () => {
     if (!isMspConnected) return;
@@ -60,6 +165,11 @@ export function Files() {
       if (data.length > 0 && !selectedBucketId) {
         setSelectedBucketId(data[0].bucketId);
       }
+
+      // Pricing only feeds the cost projection, so a failure must not block uploads
+      getStoragePricing()
+        .then(setStoragePricing)
+        .catch(() => setStoragePricing(null));
     } catch (err) {
       if (!handleAuthError(err)) {
         setError(err instanceof Error ? err.message : 'Failed to load buckets');
@@ -145,63 +255,133 @@ export function Files() {
     }
   }, [selectedBucketId, loadFiles]);
 
+  // Refresh the file list whenever an upload into the selected bucket completes or is revoked
+  const completedUploads = uploadQueue.filter(
+    (item) =>
+      item.bucketId === selectedBucketId && (item.progress.step === 'done' || item.progress.step === 'revoked')
+  ).length;
+  const lastCompletedUploads = useRef(completedUploads);
+
+  useEffect(() => {
+    if (completedUploads > lastCompletedUploads.current) {
+      loadFiles();
+    }
+    lastCompletedUploads.current = completedUploads;
+  }, [completedUploads, loadFiles]);
+
   const handleBucketChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedBucketId(e.target.value);
     setSelectedFile(null);
   };
 
+  // React doesn't know the webkitdirectory attribute, so set it on the element directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedUploadFile(file);
+    // Files picked from a folder carry their path relative to the selected folder
+    const selected = Array.from(e.target.files ?? []).map((file) => ({
+      file,
+      location: file.webkitRelativePath || file.name,
+    }));
+    if (selected.length > 0) {
+      setSelectedUploadFiles((prev) => [...prev, ...selected]);
     }
+    e.target.value = '';
   };
 
-  const handleUpload = async () => {
-    if (!selectedUploadFile || !selectedBucketId) return;
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!selectedBucketId) return;
 
-    setError(null);
+    // Entries must be grabbed synchronously, the DataTransfer is cleared after the event
+    const entries = Array.from(e.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => !!entry);
 
     try {
-      // Step 1: Preparing
-      setUploadProgress({ step: 'preparing', message: 'Preparing file...' });
-      await new Promise((r) => setTimeout(r, 500)); // Small delay for UX
-
-      // Step 2: Issue storage request
-      setUploadProgress({ step: 'issuing', message: 'Issuing storage request...' });
-      const { fileKey } = await uploadFile(selectedBucketId, selectedUploadFile);
-
-      // Step 3: Upload complete, wait for confirmation
-      setUploadProgress({ step: 'confirming', message: 'Waiting for MSP confirmation...' });
-      await waitForMSPConfirmOnChain(fileKey);
-
-      // Step 4: Wait for backend
-      setUploadProgress({ step: 'finalizing', message: 'Finalizing...' });
-      await waitForBackendFileReady(selectedBucketId, fileKey);
-
-      // Done
-      setUploadProgress({ step: 'done', message: 'File uploaded successfully!' });
-      setSelectedUploadFile(null);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+      const dropped = (await Promise.all(entries.map(readEntry))).flat();
+      if (dropped.length > 0) {
+        setSelectedUploadFiles((prev) => [...prev, ...dropped]);
       }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read dropped files');
+    }
+  };
+
+  const isCustomReplication = replicationLevel === ReplicationLevel.Custom;
+  const isReplicaCountValid = !isCustomReplication || (Number.isInteger(Number(replicas)) && Number(replicas) >= 1);
+
+  const uploadReplication: FileReplication = {
+    level: replicationLevel,
+    replicas: isCustomReplication ? Number(replicas) : 0,
+  };
 
-      // Refresh file list
-      await loadFiles();
+  const { symbol, decimals } = networks[networkKey].nativeCurrency;
 
-      // Reset progress after a delay
-      setTimeout(() => {
-        setUploadProgress({ step: 'idle', message: '' });
-      }, 2000);
+  // Project the storage cost of the selected files under the bucket's value proposition.
+  // Only custom replication has a known replica count, so presets are priced for the MSP alone.
+  const selectedBucketValueProp = storagePricing?.valueProps.find(
+    (vp) => vp.id === buckets.find((bucket) => bucket.bucketId === selectedBucketId)?.valuePropId
+  );
+  const uploadCost =
+    selectedBucketValueProp && storagePricing && selectedUploadFiles.length > 0
+      ? calculateStorageCost(
+          selectedUploadFiles.reduce((total, { file }) => total + file.size, 0),
+          selectedBucketValueProp,
+          storagePricing,
+          isCustomReplication && isReplicaCountValid ? uploadReplication.replicas : undefined
+        )
+      : null;
+
+  const handleUpload = async () => {
+    if (selectedUploadFiles.length === 0 || !selectedBucketId || !isReplicaCountValid) return;
+
+    setError(null);
+    setIsEstimatingGas(true);
+    try {
+      // Every file issues its own storage request; the first one stands in for the rest
+      const [{ file, location }] = selectedUploadFiles;
+      setGasEstimate(await estimateUploadGas(selectedBucketId, file, location, uploadReplication));
     } catch (err) {
-      setUploadProgress({
-        step: 'error',
-        message: err instanceof Error ? err.message : 'Upload failed',
-      });
-      setError(err instanceof Error ? err.message : 'Failed to upload file');
+      if (!handleAuthError(err)) {
+        setError(err instanceof Error ? err.message : 'Failed to estimate gas');
+      }
+    } finally {
+      setIsEstimatingGas(false);
     }
   };
 
+  const handleConfirmUpload = () => {
+    setGasEstimate(null);
+    enqueueUploads(selectedBucketId, selectedUploadFiles, uploadReplication);
+    setSelectedUploadFiles([]);
+  };
+
+  const handleResumeSelect = (entry: UploadJournalEntry) => {
+    setResumeTarget(entry);
+    resumeInputRef.current?.click();
+  };
+
+  const handleResumeFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !resumeTarget) return;
+
+    setError(null);
+    resumeUpload(resumeTarget, file);
+    setResumeTarget(null);
+  };
+
+  const handleDiscardInterrupted = (entry: UploadJournalEntry) => {
+    if (!confirm(`Discard the interrupted upload of ${entry.location}? Its storage request will expire on chain.`)) {
+      return;
+    }
+    removeUploadJournalEntry(entry.fileKey);
+  };
+
   const handleViewFile = async (fileKey: string) => {
     if (!selectedBucketId) return;
     setIsLoadingFileInfo(true);
@@ -240,35 +420,43 @@ export function Files() {
 
   const handleDelete = async (fileKey: string) => {
     if (!selectedBucketId) return;
-    if (!confirm('Are you sure you want to delete this file?')) return;
 
     setIsDeleting(fileKey);
     setError(null);
+    try {
+      // The fee confirmation doubles as the delete confirmation
+      setDeleteConfirmation({ fileKey, estimate: await estimateDeleteFileGas() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to estimate gas');
+    } finally {
+      setIsDeleting(null);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!selectedBucketId || !deleteConfirmation) return;
+    const { fileKey } = deleteConfirmation;
+    setDeleteConfirmation(null);
 
+    setIsDeleting(fileKey);
     try {
       await requestDeleteFile(selectedBucketId, fileKey);
 
       // Immediately show deletionInProgress status in the UI
       setFiles((prev) => prev.map((f) => (f.fileKey === fileKey ? { ...f, status: 'deletionInProgress' } : f)));
 
-      // Poll until the file is gone
-      const poll = async () => {
-        for (let i = 0; i < 30; i++) {
-          await new Promise((r) => setTimeout(r, 3000));
-          try {
-            await getFileInfo(selectedBucketId, fileKey);
-            // File still exists, keep polling
-          } catch {
-            // File no longer found — remove it from the list
-            setFiles((prev) => prev.filter((f) => f.fileKey !== fileKey));
-            if (selectedFile?.fileKey === fileKey) {
-              setSelectedFile(null);
-            }
-            return;
+      // Wait in the background until the backend drops the file
+      waitForBackendFileDeleted(selectedBucketId, fileKey, unmountSignalRef.current)
+        .then(() => {
+          // File no longer found — remove it from the list
+          setFiles((prev) => prev.filter((f) => f.fileKey !== fileKey));
+          if (selectedFile?.fileKey === fileKey) {
+            setSelectedFile(null);
           }
-        }
-      };
-      poll();
+        })
+        .catch(() => {
+          // Still shown as deleting until the next refresh
+        });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete file');
     } finally {
@@ -276,39 +464,77 @@ export function Files() {
     }
   };
 
-  const getUploadSteps = () => {
+  const getUploadSteps = (item: UploadQueueItem) => {
+    const { progress, failedStep } = item;
     const steps = [
       { label: 'Preparing file...', status: 'pending' as const },
       { label: 'Issuing storage request...', status: 'pending' as const },
+      { label: 'Uploading to MSP...', status: 'pending' as const },
       { label: 'Waiting for MSP confirmation...', status: 'pending' as const },
       { label: 'Finalizing...', status: 'pending' as const },
       { label: 'Done!', status: 'pending' as const },
     ];
 
-    const stepMap: Record<string, number> = {
-      preparing: 0,
-      issuing: 1,
-      uploading: 1, // Same as issuing for simplicity
-      confirming: 2,
-      finalizing: 3,
-      done: 4,
-    };
-
-    const currentStep = stepMap[uploadProgress.step] ?? -1;
+    const currentStep = UPLOAD_STEPS.indexOf(
+      progress.step === 'error' && failedStep ? failedStep : progress.step
+    );
 
-    return steps.map((step, index) => ({
+    const uploadSteps = steps.map((step, index) => ({
       ...step,
       status:
-        uploadProgress.step === 'error' && index === currentStep
+        progress.step === 'error' && index === currentStep
           ? 'error'
           : index < currentStep
             ? 'completed'
             : index === currentStep
-              ? 'active'
+              ? progress.step === 'done'
+                ? 'completed'
+                : 'active'
               : 'pending',
-    })) as { label: string; status: 'pending' | 'active' | 'completed' | 'error' }[];
+    })) as StepperStep[];
+
+    return [...uploadSteps, getReplicationStep(item)];
+  };
+
+  // Extra stage that keeps updating after the upload itself is done
+  const getReplicationStep = ({ progress, bspConfirmation, bspTrackingError }: UploadQueueItem): StepperStep => {
+    const isConfirmed =
+      !!bspConfirmation && (bspConfirmation.fulfilled || bspConfirmation.confirmed >= bspConfirmation.required);
+
+    return {
+      label: bspConfirmation ? formatBspConfirmation(bspConfirmation) : 'Waiting for BSP replicas...',
+      status: bspTrackingError
+        ? 'error'
+        : isConfirmed
+          ? 'completed'
+          : bspConfirmation || progress.step === 'done'
+            ? 'active'
+            : 'pending',
+      detail:
+        bspTrackingError ??
+        (bspConfirmation && !isConfirmed ? `${bspConfirmation.volunteered} BSPs volunteered` : undefined),
+    };
+  };
+
+  const getUploadStatusColor = (step: FileUploadProgress['step']) => {
+    switch (step) {
+      case 'done':
+        return 'text-green-400';
+      case 'error':
+        return 'text-red-400';
+      case 'cancelling':
+      case 'cancelled':
+      case 'revoked':
+        return 'text-yellow-400';
+      case 'idle':
+        return 'text-dh-400';
+      default:
+        return 'text-sage-400';
+    }
   };
 
+  const selectedFileReplication = selectedFile ? getFileReplication(selectedFile.fileKey) : null;
+
   const truncateHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-8)}`;
 
   const formatFileSize = (bytes?: number) => {
@@ -388,49 +614,235 @@ export function Files() {
         </div>
       </Card>
 
+      {/* Interrupted Uploads */}
+      {interruptedUploads.length > 0 && (
+        <Card title="Interrupted Uploads">
+          <div className="space-y-2">
+            <p className="text-sm text-dh-300">
+              These uploads stopped after their storage request was issued. Select the same file again to resume.
+            </p>
+            <input ref={resumeInputRef} type="file" onChange={handleResumeFile} className="hidden" />
+            {interruptedUploads.map((entry) => (
+              <div
+                key={entry.fileKey}
+                className="bg-dh-900 rounded-lg p-3 flex items-center justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">{entry.location}</p>
+                  <p className="text-xs text-dh-400">
+                    {buckets.find((b) => b.bucketId === entry.bucketId)?.name || truncateHash(entry.bucketId)} ·{' '}
+                    {formatFileSize(entry.fileSize)} ·{' '}
+                    {entry.stage === 'submitted'
+                      ? 'Storage request not yet confirmed'
+                      : entry.stage === 'uploading'
+                        ? 'Not yet uploaded to MSP'
+                        : 'Waiting for confirmation'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button size="sm" onClick={() => handleResumeSelect(entry)}>
+                    Resume
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={() => handleDiscardInterrupted(entry)}>
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Upload Form */}
-        <Card title="Upload File" className="lg:col-span-1" onClick={() => setActiveSnippet('uploadFile')}>
+        <Card title="Upload Files" className="lg:col-span-1" onClick={() => setActiveSnippet('uploadFile')}>
           <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-dh-200 mb-2">Select File</label>
+            <div
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`rounded-lg border-2 border-dashed p-4 transition-colors ${
+                isDragging ? 'border-sage-500 bg-sage-500/10' : 'border-dh-700'
+              }`}
+            >
+              <label className="block text-sm font-medium text-dh-200 mb-2">Select or drop files and folders</label>
               <input
-                ref={fileInputRef}
                 type="file"
+                multiple
                 onChange={handleFileSelect}
                 className="block w-full text-sm text-dh-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-sage-600 file:text-white hover:file:bg-sage-500 file:cursor-pointer"
-                disabled={
-                  !selectedBucketId ||
-                  (uploadProgress.step !== 'idle' && uploadProgress.step !== 'done' && uploadProgress.step !== 'error')
-                }
+                disabled={!selectedBucketId}
               />
+              <input ref={folderInputRef} type="file" onChange={handleFileSelect} className="hidden" />
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => folderInputRef.current?.click()}
+                disabled={!selectedBucketId}
+                className="mt-3"
+              >
+                Select Folder
+              </Button>
             </div>
 
-            {selectedUploadFile && (
-              <div className="bg-dh-900 rounded-lg p-3">
-                <p className="text-sm text-white">{selectedUploadFile.name}</p>
-                <p className="text-xs text-dh-300">{formatFileSize(selectedUploadFile.size)}</p>
+            {selectedUploadFiles.length > 0 && (
+              <div className="bg-dh-900 rounded-lg p-3 space-y-1 max-h-40 overflow-y-auto">
+                {selectedUploadFiles.map(({ file, location }, index) => (
+                  <div key={`${location}-${index}`} className="flex items-center justify-between gap-2">
+                    <p className="text-sm text-white truncate">{location}</p>
+                    <p className="text-xs text-dh-300 flex-shrink-0">{formatFileSize(file.size)}</p>
+                  </div>
+                ))}
               </div>
             )}
 
-            <Button
-              onClick={handleUpload}
-              isLoading={
-                uploadProgress.step !== 'idle' && uploadProgress.step !== 'done' && uploadProgress.step !== 'error'
-              }
-              disabled={
-                !selectedUploadFile ||
-                !selectedBucketId ||
-                (uploadProgress.step !== 'idle' && uploadProgress.step !== 'done' && uploadProgress.step !== 'error')
-              }
-              className="w-full"
-            >
-              Upload File
-            </Button>
+            <div className="grid grid-cols-2 gap-2">
+              <div className={isCustomReplication ? '' : 'col-span-2'}>
+                <label htmlFor="replicationLevel" className="block text-sm font-medium text-dh-200 mb-1">
+                  Replication
+                </label>
+                <select
+                  id="replicationLevel"
+                  value={replicationLevel}
+                  onChange={(e) => setReplicationLevel(Number(e.target.value) as ReplicationLevel)}
+                  className="w-full px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-sage-500"
+                >
+                  {REPLICATION_LEVELS.map(({ level, label }) => (
+                    <option key={level} value={level}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {isCustomReplication && (
+                <div>
+                  <label htmlFor="replicas" className="block text-sm font-medium text-dh-200 mb-1">
+                    Replicas
+                  </label>
+                  <input
+                    type="number"
+                    id="replicas"
+                    min={1}
+                    step={1}
+                    value={replicas}
+                    onChange={(e) => setReplicas(e.target.value)}
+                    className="w-full px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-sage-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+            </div>
 
-            {uploadProgress.step !== 'idle' && (
-              <div className="mt-4">
-                <ProgressStepper steps={getUploadSteps()} />
+            {uploadCost && (
+              <div className="bg-dh-900 rounded-lg p-3 space-y-1">
+                <p className="text-xs text-dh-400">
+                  {uploadCost.includesBsps
+                    ? `Projected Storage Cost (MSP + ${uploadReplication.replicas} BSP replicas)`
+                    : 'Projected Storage Cost (MSP only, BSP fees not included)'}
+                </p>
+                {(
+                  [
+                    ['Per block', uploadCost.perBlock],
+                    ['Per day', uploadCost.perDay],
+                    ['Per month', uploadCost.perMonth],
+                  ] as const
+                ).map(([label, amount]) => (
+                  <div key={label} className="flex items-center justify-between text-xs">
+                    <span className="text-dh-300">{label}</span>
+                    <span className="font-mono text-dh-200">{formatTokenAmount(amount, decimals, symbol, 8)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                onClick={handleUpload}
+                isLoading={isEstimatingGas}
+                disabled={selectedUploadFiles.length === 0 || !selectedBucketId || !isReplicaCountValid}
+                className="flex-1"
+              >
+                {selectedUploadFiles.length > 1 ? `Upload ${selectedUploadFiles.length} Files` : 'Upload File'}
+              </Button>
+              {selectedUploadFiles.length > 0 && (
+                <Button variant="secondary" onClick={() => setSelectedUploadFiles([])}>
+                  Clear
+                </Button>
+              )}
+            </div>
+
+            {uploadQueue.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-dh-200">Upload Queue</p>
+                  <Button variant="secondary" size="sm" onClick={clearFinishedUploads}>
+                    Clear Finished
+                  </Button>
+                </div>
+                {uploadQueue.map((item) => (
+                  <div key={item.id} className="bg-dh-900 rounded-lg p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <button
+                        onClick={() => setExpandedUploadId(expandedUploadId === item.id ? null : item.id)}
+                        className="text-sm text-white truncate hover:text-sage-400 text-left"
+                      >
+                        {item.location}
+                      </button>
+                      <p className="text-xs text-dh-300 flex-shrink-0">{formatFileSize(item.file.size)}</p>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className={`text-xs ${getUploadStatusColor(item.progress.step)}`}>
+                        {UPLOAD_STEPS.includes(item.progress.step) &&
+                          `${UPLOAD_STEPS.indexOf(item.progress.step) + 1}/${UPLOAD_STEPS.length} · `}
+                        {item.progress.message}
+                        {item.progress.step === 'done' &&
+                          item.bspConfirmation &&
+                          ` · ${formatBspConfirmation(item.bspConfirmation)}`}
+                      </p>
+                      {isUploadCancellable(item) && (
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => cancelUpload(item.id)}
+                          className="flex-shrink-0"
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                      {(item.progress.step === 'error' || item.progress.step === 'idle') && (
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          {item.progress.step === 'error' && (
+                            <Button variant="secondary" size="sm" onClick={() => retryUpload(item.id)}>
+                              Retry
+                            </Button>
+                          )}
+                          <Button variant="secondary" size="sm" onClick={() => skipUpload(item.id)}>
+                            Skip
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    {expandedUploadId === item.id && item.progress.step !== 'idle' && (
+                      <div className="pt-2">
+                        <ProgressStepper steps={getUploadSteps(item)} />
+                        {item.bspConfirmation && item.bspConfirmation.bsps.length > 0 && (
+                          <div className="mt-2 space-y-1">
+                            {item.bspConfirmation.bsps.map((bsp) => (
+                              <div key={bsp.bspId} className="flex items-center justify-between text-xs">
+                                <span className="font-mono text-dh-300">{truncateHash(bsp.bspId)}</span>
+                                <span className={bsp.confirmed ? 'text-green-400' : 'text-dh-400'}>
+                                  {bsp.confirmed ? 'Confirmed' : 'Volunteered'}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
               </div>
             )}
           </div>
@@ -552,6 +964,14 @@ export function Files() {
               <p className="text-xs text-dh-400 mb-1">Bucket ID</p>
               <p className="text-sm font-mono text-dh-200 break-all">{selectedFile.bucketId}</p>
             </div>
+            <div className="bg-dh-900 rounded-lg p-4">
+              <p className="text-xs text-dh-400 mb-1">Requested Replication</p>
+              <p className="text-sm text-dh-200">
+                {selectedFileReplication
+                  ? formatReplication(selectedFileReplication)
+                  : 'Unknown (not uploaded from this browser)'}
+              </p>
+            </div>
             {selectedFile.fingerprint && (
               <div className="bg-dh-900 rounded-lg p-4 md:col-span-2">
                 <p className="text-xs text-dh-400 mb-1">Fingerprint</p>
@@ -561,6 +981,26 @@ export function Files() {
           </div>
         </Card>
       )}
+
+      {/* Gas Fee Confirmation Modal */}
+      {gasEstimate && (
+        <GasFeeModal
+          title={selectedUploadFiles.length > 1 ? `Confirm ${selectedUploadFiles.length} Uploads` : 'Confirm Upload'}
+          estimate={gasEstimate}
+          transactionCount={selectedUploadFiles.length}
+          onConfirm={handleConfirmUpload}
+          onClose={() => setGasEstimate(null)}
+        />
+      )}
+
+      {deleteConfirmation && (
+        <GasFeeModal
+          title="Confirm File Deletion"
+          estimate={deleteConfirmation.estimate}
+          onConfirm={handleConfirmDelete}
+          onClose={() => setDeleteConfirmation(null)}
+        />
+      )}
     </SplitLayout>
   );
 }
@@ -0,0 +1,325 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAppState } from '../hooks/useAppState';
+import { Card } from '../components/Card';
+import { Button } from '../components/Button';
+import { StatusBadge } from '../components/StatusBadge';
+import { SplitLayout } from '../components/SplitLayout';
+import { providerSnippets } from '../config/codeSnippets';
+import { getMainStorageProviders, getBackupStorageProviders, getBspConfirmationStatus } from '../operations';
+import { formatBytes, formatTokenAmount } from '../utils/formatting';
+import type { BackupStorageProvider, BspConfirmationStatus, MainStorageProvider, StorageProviderDetails } from '../types';
+
+type ProviderKind = 'msp' | 'bsp';
+
+const fetchProviders = () => Promise.all([getMainStorageProviders(), getBackupStorageProviders()]);
+
+export function Providers() {
+  const { isWalletConnected, mspInfo, networkKey, networks } = useAppState();
+
+  const [msps, setMsps] = useState<MainStorageProvider[]>([]);
+  const [bsps, setBsps] = useState<BackupStorageProvider[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [kind, setKind] = useState<ProviderKind>('msp');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [replicaFileKey, setReplicaFileKey] = useState('');
+  const [replicaStatus, setReplicaStatus] = useState<BspConfirmationStatus | null>(null);
+  const [replicaMessage, setReplicaMessage] = useState<string | null>(null);
+  const [isCheckingReplicas, setIsCheckingReplicas] = useState(false);
+  const [activeSnippet, setActiveSnippet] = useState('listProviders');
+
+  const { symbol, decimals } = networks[networkKey].nativeCurrency;
+
+  const loadProviders = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [mainProviders, backupProviders] = await fetchProviders();
+      setMsps(mainProviders);
+      setBsps(backupProviders);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load storage providers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Initial load, state is only set once the chain has answered
+  useEffect(() => {
+    if (!isWalletConnected) return;
+    let cancelled = false;
+    fetchProviders()
+      .then(([mainProviders, backupProviders]) => {
+        if (cancelled) return;
+        setMsps(mainProviders);
+        setBsps(backupProviders);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load storage providers');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isWalletConnected, networkKey]);
+
+  const handleCheckReplicas = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const fileKey = replicaFileKey.trim();
+    if (!fileKey) return;
+
+    setIsCheckingReplicas(true);
+    setReplicaStatus(null);
+    setReplicaMessage(null);
+    try {
+      const status = await getBspConfirmationStatus(fileKey);
+      if (status) {
+        setReplicaStatus(status);
+        setKind('bsp');
+      } else {
+        setReplicaMessage('No open storage request for this file key. Once fulfilled, it is no longer tracked on chain.');
+      }
+    } catch (err) {
+      setReplicaMessage(err instanceof Error ? err.message : 'Failed to check replicas');
+    } finally {
+      setIsCheckingReplicas(false);
+    }
+  };
+
+  const truncateHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-8)}`;
+
+  const formatStake = (provider: StorageProviderDetails) =>
+    provider.stake === null ? '—' : formatTokenAmount(provider.stake, decimals, symbol);
+
+  const formatUsage = (provider: StorageProviderDetails) =>
+    `${formatBytes(Number(provider.capacityUsed))} / ${formatBytes(Number(provider.capacity))}`;
+
+  const getReplicaBadge = (bspId: string) => {
+    const replica = replicaStatus?.bsps.find((bsp) => bsp.bspId === bspId);
+    if (!replica) return null;
+    return replica.confirmed ? (
+      <StatusBadge status="ready" label="Confirmed" />
+    ) : (
+      <StatusBadge status="pending" label="Volunteered" />
+    );
+  };
+
+  const selectedMsp = kind === 'msp' ? (msps.find((msp) => msp.mspId === selectedId) ?? null) : null;
+  const selectedBsp = kind === 'bsp' ? (bsps.find((bsp) => bsp.bspId === selectedId) ?? null) : null;
+  const selectedProvider: StorageProviderDetails | null = selectedMsp ?? selectedBsp;
+
+  if (!isWalletConnected) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-semibold text-white mb-2">Wallet Required</h2>
+        <p className="text-dh-300">Please connect your wallet on the Dashboard to read providers from the chain.</p>
+        <a href="/" className="mt-4 inline-block text-sage-400 hover:text-sage-300">
+          Go to Dashboard
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <SplitLayout
+      snippets={providerSnippets}
+      defaultSnippetId="listProviders"
+      pageTitle="Providers"
+      pageDescription="Main and Backup Storage Providers registered on chain."
+      activeSnippetId={activeSnippet}
+      onSnippetChange={setActiveSnippet}
+    >
+      {/* Error Alert */}
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+          <span className="text-red-400 text-sm">{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Provider List */}
+        <Card title="Storage Providers" className="lg:col-span-2" onClick={() => setActiveSnippet('listProviders')}>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex gap-2">
+                {(
+                  [
+                    ['msp', `MSPs (${msps.length})`],
+                    ['bsp', `BSPs (${bsps.length})`],
+                  ] as [ProviderKind, string][]
+                ).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => {
+                      setKind(value);
+                      setSelectedId(null);
+                    }}
+                    className={`px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+                      kind === value
+                        ? 'bg-sage-600 border-sage-600 text-white'
+                        : 'bg-dh-900 border-dh-700 text-dh-300 hover:border-dh-600'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <Button variant="secondary" size="sm" onClick={loadProviders} isLoading={isLoading}>
+                Refresh
+              </Button>
+            </div>
+
+            {isLoading && msps.length === 0 && bsps.length === 0 ? (
+              <div className="text-center py-8 text-dh-300">Loading providers...</div>
+            ) : (kind === 'msp' ? msps.length : bsps.length) === 0 ? (
+              <div className="text-center py-8 text-dh-300">
+                No {kind === 'msp' ? 'Main' : 'Backup'} Storage Providers registered on this network.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-dh-700">
+                      <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Provider ID</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Used / Capacity</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Stake</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">
+                        {kind === 'msp' ? 'Value Props' : 'Replica'}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(kind === 'msp'
+                      ? msps.map((msp) => ({ id: msp.mspId, provider: msp as StorageProviderDetails }))
+                      : bsps.map((bsp) => ({ id: bsp.bspId, provider: bsp as StorageProviderDetails }))
+                    ).map(({ id, provider }) => (
+                      <tr
+                        key={id}
+                        onClick={() => setSelectedId(id)}
+                        className={`border-b border-dh-700/50 hover:bg-dh-700/30 cursor-pointer ${
+                          selectedId === id ? 'bg-dh-700/50' : ''
+                        }`}
+                      >
+                        <td className="py-3 px-4 text-sm font-mono text-dh-200">
+                          <div className="flex items-center gap-2">
+                            {truncateHash(id)}
+                            {id === mspInfo?.mspId && <StatusBadge status="connected" label="Connected" />}
+                          </div>
+                        </td>
+                        <td className="py-3 px-4 text-sm text-dh-200">{formatUsage(provider)}</td>
+                        <td className="py-3 px-4 text-sm font-mono text-dh-200">{formatStake(provider)}</td>
+                        <td className="py-3 px-4 text-sm text-dh-200">
+                          {kind === 'msp'
+                            ? (msps.find((msp) => msp.mspId === id)?.valueProps.length ?? 0)
+                            : getReplicaBadge(id)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </Card>
+
+        <div className="lg:col-span-1 space-y-6">
+          {/* Provider Details */}
+          <Card title="Provider Details" onClick={() => setActiveSnippet('listProviders')}>
+            {selectedProvider && selectedId ? (
+              <div className="space-y-3">
+                {(
+                  [
+                    ['Provider ID', selectedId],
+                    ['Owner Account', selectedProvider.ownerAccount],
+                    ['Capacity', formatBytes(Number(selectedProvider.capacity))],
+                    ['Used Capacity', formatBytes(Number(selectedProvider.capacityUsed))],
+                    ['Stake', formatStake(selectedProvider)],
+                    ['Reputation Weight', selectedBsp && String(selectedBsp.reputationWeight)],
+                  ] as [string, string | null][]
+                )
+                  .filter(([, value]) => value)
+                  .map(([label, value]) => (
+                    <div key={label} className="bg-dh-900 rounded-lg p-3">
+                      <p className="text-xs text-dh-400 mb-1">{label}</p>
+                      <p className="text-sm font-mono text-dh-200 break-all">{value}</p>
+                    </div>
+                  ))}
+
+                <div className="bg-dh-900 rounded-lg p-3">
+                  <p className="text-xs text-dh-400 mb-1">Multiaddresses</p>
+                  {selectedProvider.multiaddresses.length ? (
+                    selectedProvider.multiaddresses.map((multiaddress) => (
+                      <p key={multiaddress} className="text-xs font-mono text-dh-200 break-all">
+                        {multiaddress}
+                      </p>
+                    ))
+                  ) : (
+                    <p className="text-xs text-dh-400">None registered</p>
+                  )}
+                </div>
+
+                {selectedMsp && (
+                  <div>
+                    <p className="text-sm font-medium text-dh-200 mb-2">Value Propositions</p>
+                    {selectedMsp.valueProps.length ? (
+                      <div className="space-y-2">
+                        {selectedMsp.valueProps.map((valueProp) => (
+                          <div key={valueProp.id} className="bg-dh-900 rounded-lg p-3 space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="text-sm text-white">
+                                {formatTokenAmount(BigInt(Math.round(valueProp.pricePerGbBlock)), decimals, symbol)} per
+                                GB per block
+                              </span>
+                              <StatusBadge
+                                status={valueProp.isAvailable ? 'ready' : 'unhealthy'}
+                                label={valueProp.isAvailable ? 'Available' : 'Unavailable'}
+                              />
+                            </div>
+                            <p className="text-xs text-dh-300">
+                              Up to {formatBytes(valueProp.dataLimitPerBucketBytes)} per bucket
+                            </p>
+                            <p className="text-xs font-mono text-dh-400 break-all">{valueProp.id}</p>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-dh-400">No value propositions registered.</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-center py-8 text-sm text-dh-300">Select a provider to see its details.</p>
+            )}
+          </Card>
+
+          {/* Replica Check */}
+          <Card title="Check Replicas" onClick={() => setActiveSnippet('checkReplicas')}>
+            <form onSubmit={handleCheckReplicas} className="space-y-3">
+              <input
+                type="text"
+                value={replicaFileKey}
+                onChange={(e) => setReplicaFileKey(e.target.value)}
+                placeholder="File key (0x...)"
+                className="w-full px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-sm font-mono text-white placeholder-dh-400 focus:outline-none focus:ring-2 focus:ring-sage-500 focus:border-transparent"
+              />
+              <Button type="submit" isLoading={isCheckingReplicas} disabled={!replicaFileKey.trim()} className="w-full">
+                Check
+              </Button>
+              {replicaStatus && (
+                <p className="text-sm text-dh-200">
+                  {replicaStatus.confirmed} of {replicaStatus.required} BSPs confirmed, {replicaStatus.volunteered}{' '}
+                  volunteered. Matching BSPs are marked in the list.
+                </p>
+              )}
+              {replicaMessage && <p className="text-xs text-dh-400">{replicaMessage}</p>}
+            </form>
+          </Card>
+        </div>
+      </div>
+    </SplitLayout>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import { useAppState } from '../hooks/useAppState';
+import { Card } from '../components/Card';
+import { Button } from '../components/Button';
+import { StatusBadge } from '../components/StatusBadge';
+import { TrashIcon } from '../components/Icons';
+import { SplitLayout } from '../components/SplitLayout';
+import { settingsSnippets } from '../config/codeSnippets';
+import { DEFAULT_FILESYSTEM_CONTRACT_ADDRESS } from '../config/networks';
+import type { NetworkConfig } from '../config/networks';
+import { isCustomNetwork, validateNetwork } from '../services/networkService';
+
+interface NetworkForm {
+  name: string;
+  chainId: string;
+  rpcUrl: string;
+  wsUrl: string;
+  mspUrl: string;
+  currencyName: string;
+  currencySymbol: string;
+  currencyDecimals: string;
+  filesystemContractAddress: string;
+  isDevelopment: boolean;
+}
+
+const EMPTY_FORM: NetworkForm = {
+  name: '',
+  chainId: '',
+  rpcUrl: '',
+  wsUrl: '',
+  mspUrl: '',
+  currencyName: '',
+  currencySymbol: '',
+  currencyDecimals: '18',
+  filesystemContractAddress: DEFAULT_FILESYSTEM_CONTRACT_ADDRESS,
+  isDevelopment: false,
+};
+
+function toForm(network: NetworkConfig): NetworkForm {
+  return {
+    name: network.name,
+    chainId: String(network.id),
+    rpcUrl: network.rpcUrl,
+    wsUrl: network.wsUrl,
+    mspUrl: network.mspUrl,
+    currencyName: network.nativeCurrency.name,
+    currencySymbol: network.nativeCurrency.symbol,
+    currencyDecimals: String(network.nativeCurrency.decimals),
+    filesystemContractAddress: network.filesystemContractAddress,
+    isDevelopment: !!network.isDevelopment,
+  };
+}
+
+function toNetwork(form: NetworkForm): NetworkConfig {
+  const id = Number(form.chainId);
+  return {
+    id,
+    idHex: `0x${id.toString(16)}`,
+    name: form.name.trim(),
+    rpcUrl: form.rpcUrl.trim(),
+    wsUrl: form.wsUrl.trim(),
+    mspUrl: form.mspUrl.trim(),
+    nativeCurrency: {
+      name: form.currencyName.trim() || form.currencySymbol.trim(),
+      symbol: form.currencySymbol.trim(),
+      decimals: Number(form.currencyDecimals),
+    },
+    filesystemContractAddress: form.filesystemContractAddress.trim() as `0x${string}`,
+    isDevelopment: form.isDevelopment,
+  };
+}
+
+const FORM_FIELDS: { key: Exclude<keyof NetworkForm, 'isDevelopment'>; label: string; placeholder: string }[] = [
+  { key: 'name', label: 'Network Name', placeholder: 'My StorageHub Chain' },
+  { key: 'chainId', label: 'Chain ID', placeholder: '181222' },
+  { key: 'rpcUrl', label: 'RPC URL', placeholder: 'http://127.0.0.1:9888' },
+  { key: 'wsUrl', label: 'WebSocket URL', placeholder: 'ws://127.0.0.1:9888' },
+  { key: 'mspUrl', label: 'MSP URL', placeholder: 'http://127.0.0.1:8080/' },
+  { key: 'currencyName', label: 'Currency Name', placeholder: 'StorageHub' },
+  { key: 'currencySymbol', label: 'Currency Symbol', placeholder: 'SH' },
+  { key: 'currencyDecimals', label: 'Currency Decimals', placeholder: '18' },
+  { key: 'filesystemContractAddress', label: 'Filesystem Precompile Address', placeholder: '0x...0404' },
+];
+
+export function Settings() {
+  const { networkKey: activeNetworkKey, networks, saveNetwork, deleteNetwork } = useAppState();
+
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [form, setForm] = useState<NetworkForm>(EMPTY_FORM);
+  const [isValidating, setIsValidating] = useState(false);
+  const [validationStatus, setValidationStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeSnippet, setActiveSnippet] = useState('validateNetwork');
+
+  const resetForm = () => {
+    setEditingKey(null);
+    setForm(EMPTY_FORM);
+    setValidationStatus(null);
+  };
+
+  const handleEdit = (networkKey: string) => {
+    setEditingKey(networkKey);
+    setForm(toForm(networks[networkKey]));
+    setValidationStatus(null);
+  };
+
+  const handleDelete = (networkKey: string) => {
+    if (!confirm(`Are you sure you want to delete ${networks[networkKey].name}?`)) return;
+
+    setError(null);
+    try {
+      deleteNetwork(networkKey);
+      if (editingKey === networkKey) {
+        resetForm();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete network');
+    }
+  };
+
+  const runValidation = async (): Promise<NetworkConfig | null> => {
+    const network = toNetwork(form);
+    setIsValidating(true);
+    setValidationStatus(null);
+    try {
+      await validateNetwork(network);
+      setValidationStatus({ ok: true, message: 'RPC and MSP endpoints are reachable.' });
+      return network;
+    } catch (err) {
+      setValidationStatus({ ok: false, message: err instanceof Error ? err.message : 'Validation failed' });
+      return null;
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const network = await runValidation();
+    if (!network) return;
+
+    try {
+      await saveNetwork(editingKey ?? `user-${Date.now().toString(36)}`, network);
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save network');
+    }
+  };
+
+  return (
+    <SplitLayout
+      snippets={settingsSnippets}
+      defaultSnippetId="validateNetwork"
+      pageTitle="Settings"
+      pageDescription="Manage the networks available in the network selector."
+      activeSnippetId={activeSnippet}
+      onSnippetChange={setActiveSnippet}
+    >
+      {/* Error Alert */}
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+          <span className="text-red-400 text-sm">{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Network Form */}
+        <Card
+          title={editingKey ? 'Edit Network' : 'Add Network'}
+          className="lg:col-span-1"
+          onClick={() => setActiveSnippet('validateNetwork')}
+        >
+          <form onSubmit={handleSave} className="space-y-4">
+            {FORM_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label htmlFor={field.key} className="block text-sm font-medium text-dh-200 mb-1">
+                  {field.label}
+                </label>
+                <input
+                  type="text"
+                  id={field.key}
+                  value={form[field.key]}
+                  onChange={(e) => setForm((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  placeholder={field.placeholder}
+                  className="w-full px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-white placeholder-dh-400 focus:outline-none focus:ring-2 focus:ring-sage-500 focus:border-transparent"
+                  disabled={isValidating}
+                />
+              </div>
+            ))}
+
+            <label className="flex items-center gap-2 text-sm text-dh-200">
+              <input
+                type="checkbox"
+                checked={form.isDevelopment}
+                onChange={(e) => setForm((prev) => ({ ...prev, isDevelopment: e.target.checked }))}
+                className="rounded border-dh-700 bg-dh-900 text-sage-600 focus:ring-sage-500"
+                disabled={isValidating}
+              />
+              Development network (allows the dev signer)
+            </label>
+
+            {validationStatus && (
+              <div
+                className={`rounded-lg p-3 text-sm border ${
+                  validationStatus.ok
+                    ? 'bg-green-500/10 border-green-500/30 text-green-400'
+                    : 'bg-red-500/10 border-red-500/30 text-red-400'
+                }`}
+              >
+                {validationStatus.message}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="button" variant="secondary" onClick={runValidation} isLoading={isValidating} className="flex-1">
+                Validate
+              </Button>
+              <Button type="submit" isLoading={isValidating} className="flex-1">
+                {editingKey ? 'Save' : 'Add'}
+              </Button>
+            </div>
+
+            {editingKey && (
+              <Button type="button" variant="secondary" onClick={resetForm} className="w-full">
+                Cancel Editing
+              </Button>
+            )}
+          </form>
+        </Card>
+
+        {/* Network List */}
+        <Card title="Networks" className="lg:col-span-2">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-dh-700">
+                  <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Name</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Chain ID</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">RPC URL</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Type</th>
+                  <th className="text-right py-3 px-4 text-sm font-medium text-dh-300">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(networks).map(([key, network]) => (
+                  <tr
+                    key={key}
+                    className={`border-b border-dh-700/50 hover:bg-dh-700/30 ${editingKey === key ? 'bg-dh-700/50' : ''}`}
+                  >
+                    <td className="py-3 px-4 text-sm text-white">
+                      <div className="flex items-center gap-2">
+                        {network.name}
+                        {key === activeNetworkKey && <StatusBadge status="connected" label="Active" />}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-sm font-mono text-dh-200">{network.id}</td>
+                    <td className="py-3 px-4 text-sm font-mono text-dh-200 break-all">{network.rpcUrl}</td>
+                    <td className="py-3 px-4 text-sm text-dh-300">{isCustomNetwork(key) ? 'Custom' : 'Built-in'}</td>
+                    <td className="py-3 px-4 text-right">
+                      {isCustomNetwork(key) && (
+                        <div className="flex items-center justify-end gap-1">
+                          <Button variant="secondary" size="sm" onClick={() => handleEdit(key)}>
+                            Edit
+                          </Button>
+                          <button
+                            onClick={() => handleDelete(key)}
+                            disabled={key === activeNetworkKey}
+                            className="p-2 rounded-lg text-dh-300 hover:text-red-400 hover:bg-dh-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            title={key === activeNetworkKey ? 'Switch to another network to delete' : 'Delete'}
+                          >
+                            <TrashIcon />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      </div>
+    </SplitLayout>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { useAppState } from '../hooks/useAppState';
+import { useTransactionHistory } from '../hooks/useTransactionHistory';
+import { Card } from '../components/Card';
+import { Button } from '../components/Button';
+import { StatusBadge } from '../components/StatusBadge';
+import { SplitLayout } from '../components/SplitLayout';
+import { transactionSnippets } from '../config/codeSnippets';
+import { clearTransactionHistory } from '../services/transactionHistoryService';
+import { formatTokenAmount } from '../utils/formatting';
+import type { TransactionOperation, TransactionRecord, TransactionStatus } from '../types';
+
+const OPERATION_LABELS: Record<TransactionOperation, string> = {
+  createBucket: 'Create Bucket',
+  deleteBucket: 'Delete Bucket',
+  updateBucketPrivacy: 'Update Bucket Privacy',
+  requestMoveBucket: 'Move Bucket',
+  issueStorageRequest: 'Issue Storage Request',
+  revokeStorageRequest: 'Revoke Storage Request',
+  requestDeleteFile: 'Delete File',
+};
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  pending: 'Pending',
+  success: 'Success',
+  reverted: 'Reverted',
+};
+
+const getStatusBadge = (status: TransactionStatus) => {
+  switch (status) {
+    case 'success':
+      return <StatusBadge status="ready" label={STATUS_LABELS[status]} />;
+    case 'reverted':
+      return <StatusBadge status="error" label={STATUS_LABELS[status]} />;
+    default:
+      return <StatusBadge status="pending" label={STATUS_LABELS[status]} />;
+  }
+};
+
+export function Transactions() {
+  const { networkKey, networks } = useAppState();
+  const transactions = useTransactionHistory();
+
+  const [operationFilter, setOperationFilter] = useState<TransactionOperation | ''>('');
+  const [statusFilter, setStatusFilter] = useState<TransactionStatus | ''>('');
+  const [search, setSearch] = useState('');
+  const [selectedHash, setSelectedHash] = useState<string | null>(null);
+  const [activeSnippet, setActiveSnippet] = useState('recordTransaction');
+
+  const { symbol, decimals } = networks[networkKey].nativeCurrency;
+  const query = search.trim().toLowerCase();
+
+  const networkTransactions = transactions.filter((tx) => tx.networkKey === networkKey);
+  const filteredTransactions = networkTransactions.filter(
+    (tx) =>
+      (!operationFilter || tx.operation === operationFilter) &&
+      (!statusFilter || tx.status === statusFilter) &&
+      (!query ||
+        [tx.hash, tx.bucketId, tx.fileKey, tx.location].some((value) => value?.toLowerCase().includes(query)))
+  );
+  const selectedTransaction = networkTransactions.find((tx) => tx.hash === selectedHash) ?? null;
+
+  const truncateHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-8)}`;
+
+  const formatFee = (tx: TransactionRecord) => (tx.fee ? formatTokenAmount(BigInt(tx.fee), decimals, symbol) : '—');
+
+  const handleClear = () => {
+    if (!confirm('Are you sure you want to clear the transaction history?')) return;
+    clearTransactionHistory();
+    setSelectedHash(null);
+  };
+
+  return (
+    <SplitLayout
+      snippets={transactionSnippets}
+      defaultSnippetId="recordTransaction"
+      pageTitle="Transactions"
+      pageDescription="Transactions sent to the filesystem precompile from this browser."
+      activeSnippetId={activeSnippet}
+      onSnippetChange={setActiveSnippet}
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Transaction List */}
+        <Card title="History" className="lg:col-span-2" onClick={() => setActiveSnippet('recordTransaction')}>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-dh-300">
+                {filteredTransactions.length} of {networkTransactions.length} transactions
+              </p>
+              <Button variant="secondary" size="sm" onClick={handleClear} disabled={networkTransactions.length === 0}>
+                Clear History
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <select
+                value={operationFilter}
+                onChange={(e) => setOperationFilter(e.target.value as TransactionOperation | '')}
+                className="px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-sage-500"
+                aria-label="Filter by operation"
+              >
+                <option value="">All operations</option>
+                {Object.entries(OPERATION_LABELS).map(([operation, label]) => (
+                  <option key={operation} value={operation}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as TransactionStatus | '')}
+                className="px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-sage-500"
+                aria-label="Filter by status"
+              >
+                <option value="">All statuses</option>
+                {Object.entries(STATUS_LABELS).map(([status, label]) => (
+                  <option key={status} value={status}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Hash, bucket, file key or path"
+                className="px-3 py-2 bg-dh-900 border border-dh-700 rounded-lg text-sm text-white placeholder-dh-400 focus:outline-none focus:ring-2 focus:ring-sage-500 focus:border-transparent"
+              />
+            </div>
+
+            {filteredTransactions.length === 0 ? (
+              <p className="text-center py-8 text-sm text-dh-300">
+                {networkTransactions.length === 0
+                  ? 'No transactions sent on this network yet.'
+                  : 'No transactions match the filters.'}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-dh-700">
+                      <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Operation</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Hash</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Status</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Fee</th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-dh-300">Sent</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredTransactions.map((tx) => (
+                      <tr
+                        key={tx.hash}
+                        onClick={() => setSelectedHash(tx.hash)}
+                        className={`border-b border-dh-700/50 hover:bg-dh-700/30 cursor-pointer ${
+                          selectedHash === tx.hash ? 'bg-dh-700/50' : ''
+                        }`}
+                      >
+                        <td className="py-3 px-4 text-sm text-white">{OPERATION_LABELS[tx.operation]}</td>
+                        <td className="py-3 px-4 text-sm font-mono text-dh-200">{truncateHash(tx.hash)}</td>
+                        <td className="py-3 px-4">{getStatusBadge(tx.status)}</td>
+                        <td className="py-3 px-4 text-sm font-mono text-dh-200">{formatFee(tx)}</td>
+                        <td className="py-3 px-4 text-sm text-dh-300">{new Date(tx.timestamp).toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </Card>
+
+        {/* Transaction Details */}
+        <Card title="Transaction Details" className="lg:col-span-1" onClick={() => setActiveSnippet('decodeLogs')}>
+          {selectedTransaction ? (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-white">{OPERATION_LABELS[selectedTransaction.operation]}</span>
+                {getStatusBadge(selectedTransaction.status)}
+              </div>
+              {(
+                [
+                  ['Transaction Hash', selectedTransaction.hash],
+                  ['From', selectedTransaction.from],
+                  ['Bucket ID', selectedTransaction.bucketId],
+                  ['File Key', selectedTransaction.fileKey],
+                  ['Location', selectedTransaction.location],
+                  ['Block Number', selectedTransaction.blockNumber],
+                  ['Gas Used', selectedTransaction.gasUsed],
+                  [
+                    'Effective Gas Price',
+                    selectedTransaction.effectiveGasPrice && `${selectedTransaction.effectiveGasPrice} wei`,
+                  ],
+                  ['Fee', selectedTransaction.fee && formatFee(selectedTransaction)],
+                  ['Sent', new Date(selectedTransaction.timestamp).toLocaleString()],
+                ] as [string, string | undefined][]
+              )
+                .filter(([, value]) => value)
+                .map(([label, value]) => (
+                  <div key={label} className="bg-dh-900 rounded-lg p-3">
+                    <p className="text-xs text-dh-400 mb-1">{label}</p>
+                    <p className="text-sm font-mono text-dh-200 break-all">{value}</p>
+                  </div>
+                ))}
+
+              <div>
+                <p className="text-sm font-medium text-dh-200 mb-2">Events</p>
+                {selectedTransaction.logs?.length ? (
+                  <div className="space-y-2">
+                    {selectedTransaction.logs.map((log, index) => (
+                      <div key={index} className="bg-dh-900 rounded-lg p-3 space-y-1">
+                        <p className="text-sm text-sage-400">{log.eventName}</p>
+                        {Object.entries(log.args).map(([name, value]) => (
+                          <div key={name}>
+                            <p className="text-xs text-dh-400">{name}</p>
+                            <p className="text-xs font-mono text-dh-200 break-all">{value}</p>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-dh-400">
+                    {selectedTransaction.status === 'pending'
+                      ? 'Waiting for the transaction receipt...'
+                      : 'No filesystem events were emitted.'}
+                  </p>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="text-center py-8 text-sm text-dh-300">Select a transaction to see its details.</p>
+          )}
+        </Card>
+      </div>
+    </SplitLayout>
+  );
+}
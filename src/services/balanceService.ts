@@ -0,0 +1,41 @@
+import { getConnectedAddress, getPublicClient } from './clientService';
+
+// State
+let balance: bigint | null = null;
+const listeners = new Set<() => void>();
+
+function setBalance(value: bigint | null) {
+  balance = value;
+  listeners.forEach((listener) => listener());
+}
+
+// Get the last known native balance of the connected account, in wei
+export function getBalance(): bigint | null {
+  return balance;
+}
+
+// Subscribe to balance changes
+export function subscribeToBalance(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Fetch the native balance of the connected account
+export async function refreshBalance(): Promise<bigint | null> {
+  const address = getConnectedAddress();
+  if (!address) {
+    setBalance(null);
+    return null;
+  }
+
+  const value = await getPublicClient().getBalance({ address });
+  setBalance(value);
+  return value;
+}
+
+// Forget the balance, e.g. after disconnecting
+export function clearBalance() {
+  setBalance(null);
+}
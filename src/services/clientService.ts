@@ -1,28 +1,27 @@
 import { defineChain, createPublicClient, createWalletClient, http, custom } from 'viem';
-import type { Chain, EIP1193Provider } from 'viem';
+import { privateKeyToAccount, mnemonicToAccount } from 'viem/accounts';
+import type { Chain, EIP1193Provider, Transport } from 'viem';
+import type { LocalAccount } from 'viem/accounts';
 import { StorageHubClient } from '@storagehub-sdk/core';
-import type { EvmWriteOptions } from '@storagehub-sdk/core';
 import { ApiPromise, WsProvider } from '@polkadot/api';
 import { types } from '@storagehub/types-bundle';
-import { NETWORKS } from '../config/networks';
+import { getActiveNetwork } from './networkService';
+import { waitForWallet } from './walletDiscoveryService';
 
-// Storage key
+// Storage keys
 const CONNECTED_ADDRESS_KEY = 'datahaven_connected_address';
-
-// Define the chain configuration
-export const chain: Chain = defineChain({
-  id: NETWORKS.testnet.id,
-  name: NETWORKS.testnet.name,
-  nativeCurrency: NETWORKS.testnet.nativeCurrency,
-  rpcUrls: { default: { http: [NETWORKS.testnet.rpcUrl] } },
-});
+const WALLET_RDNS_KEY = 'datahaven_wallet_rdns';
 
 // State for connected clients
+let chainInstance: Chain | null = null;
 let walletClientInstance: ReturnType<typeof createWalletClient> | null = null;
 let publicClientInstance: ReturnType<typeof createPublicClient> | null = null;
 let storageHubClientInstance: StorageHubClient | null = null;
 let polkadotApiInstance: ApiPromise | null = null;
 let connectedAddress: `0x${string}` | null = null;
+let connectedWalletRdns: string | null = null;
+let walletProviderInstance: EIP1193Provider | null = null;
+let devAccountInstance: LocalAccount | null = null;
 
 // Initialize address from storage
 function initFromStorage() {
@@ -32,25 +31,49 @@ function initFromStorage() {
   if (storedAddress) {
     connectedAddress = storedAddress as `0x${string}`;
   }
+
+  connectedWalletRdns = sessionStorage.getItem(WALLET_RDNS_KEY);
 }
 
 // Initialize on module load
 initFromStorage();
 
-// Get ethereum provider from window
-function getEthereumProvider(): EIP1193Provider {
+// Get ethereum provider: the EIP-6963 wallet matching rdns, or window.ethereum as a fallback
+async function getEthereumProvider(rdns: string | null): Promise<EIP1193Provider> {
+  if (rdns) {
+    const wallet = await waitForWallet(rdns);
+    if (!wallet) {
+      throw new Error(`Wallet ${rdns} not found. Please make sure the extension is installed and enabled.`);
+    }
+    return wallet.provider;
+  }
+
   if (typeof window === 'undefined' || !window.ethereum) {
     throw new Error('No Ethereum wallet found. Please install MetaMask or another Web3 wallet.');
   }
   return window.ethereum as EIP1193Provider;
 }
 
+// Get the chain configuration for the active network
+export function getChain(): Chain {
+  if (!chainInstance) {
+    const network = getActiveNetwork();
+    chainInstance = defineChain({
+      id: network.id,
+      name: network.name,
+      nativeCurrency: network.nativeCurrency,
+      rpcUrls: { default: { http: [network.rpcUrl] } },
+    });
+  }
+  return chainInstance;
+}
+
 // Create public client (read-only, always available)
 export function getPublicClient() {
   if (!publicClientInstance) {
     publicClientInstance = createPublicClient({
-      chain,
-      transport: http(NETWORKS.testnet.rpcUrl),
+      chain: getChain(),
+      transport: http(getActiveNetwork().rpcUrl),
     });
   }
   return publicClientInstance;
@@ -58,7 +81,8 @@ export function getPublicClient() {
 
 // Switch wallet to the correct network
 async function switchToCorrectNetwork(provider: EIP1193Provider): Promise<void> {
-  const chainIdHex = NETWORKS.testnet.idHex;
+  const network = getActiveNetwork();
+  const chainIdHex = network.idHex;
 
   try {
     // Try to switch to the network
@@ -76,9 +100,9 @@ async function switchToCorrectNetwork(provider: EIP1193Provider): Promise<void>
         params: [
           {
             chainId: chainIdHex,
-            chainName: NETWORKS.testnet.name,
-            nativeCurrency: NETWORKS.testnet.nativeCurrency,
-            rpcUrls: [NETWORKS.testnet.rpcUrl],
+            chainName: network.name,
+            nativeCurrency: network.nativeCurrency,
+            rpcUrls: [network.rpcUrl],
           },
         ],
       });
@@ -89,8 +113,10 @@ async function switchToCorrectNetwork(provider: EIP1193Provider): Promise<void>
 }
 
 // Connect wallet using browser extension (MetaMask, etc.)
-export async function connectWallet(): Promise<`0x${string}`> {
-  const provider = getEthereumProvider();
+// Pass the rdns of an EIP-6963 wallet to pick it, or omit it to reuse the previously chosen wallet
+export async function connectWallet(rdns?: string | null): Promise<`0x${string}`> {
+  const walletRdns = rdns === undefined ? connectedWalletRdns : rdns;
+  const provider = await getEthereumProvider(walletRdns);
 
   // Request account access
   const accounts = (await provider.request({
@@ -105,37 +131,94 @@ export async function connectWallet(): Promise<`0x${string}`> {
   await switchToCorrectNetwork(provider);
 
   connectedAddress = accounts[0] as `0x${string}`;
+  connectedWalletRdns = walletRdns;
+  devAccountInstance = null;
+  walletProviderInstance = provider;
 
-  // Create wallet client with browser wallet
-  walletClientInstance = createWalletClient({
-    chain,
-    account: connectedAddress,
-    transport: custom(provider),
-  });
-
-  // Create StorageHub client
-  storageHubClientInstance = new StorageHubClient({
-    rpcUrl: NETWORKS.testnet.rpcUrl,
-    chain: chain,
-    walletClient: walletClientInstance,
-    filesystemContractAddress: '0x0000000000000000000000000000000000000404' as `0x${string}`,
-  });
+  buildWalletClients(custom(provider), connectedAddress);
 
   // Persist to session storage
   if (typeof window !== 'undefined') {
     sessionStorage.setItem(CONNECTED_ADDRESS_KEY, connectedAddress);
+    if (connectedWalletRdns) {
+      sessionStorage.setItem(WALLET_RDNS_KEY, connectedWalletRdns);
+    } else {
+      sessionStorage.removeItem(WALLET_RDNS_KEY);
+    }
   }
 
   return connectedAddress;
 }
 
+// Connect with a local private key or mnemonic (development networks only)
+export function connectDevSigner(secret: string, addressIndex: number = 0): `0x${string}` {
+  if (!getActiveNetwork().isDevelopment) {
+    throw new Error('The dev signer is only available on development networks.');
+  }
+
+  const trimmed = secret.trim();
+  const account = /^0x[0-9a-fA-F]{64}$/.test(trimmed)
+    ? privateKeyToAccount(trimmed as `0x${string}`)
+    : mnemonicToAccount(trimmed, { addressIndex });
+
+  return connectDevAccount(account);
+}
+
+// Build signing clients around a local account (the key never leaves memory)
+function connectDevAccount(account: LocalAccount): `0x${string}` {
+  if (!getActiveNetwork().isDevelopment) {
+    throw new Error('The dev signer is only available on development networks.');
+  }
+
+  devAccountInstance = account;
+  walletProviderInstance = null;
+  connectedWalletRdns = null;
+  connectedAddress = account.address;
+
+  buildWalletClients(http(getActiveNetwork().rpcUrl), account);
+
+  // Only the address is persisted, so a dev signer session cannot be restored after a reload
+  if (typeof window !== 'undefined') {
+    sessionStorage.removeItem(CONNECTED_ADDRESS_KEY);
+    sessionStorage.removeItem(WALLET_RDNS_KEY);
+  }
+
+  return connectedAddress;
+}
+
+// Reconnect using the same wallet or dev signer as before (e.g. after switching networks)
+export async function reconnectWallet(): Promise<`0x${string}`> {
+  if (devAccountInstance) {
+    return connectDevAccount(devAccountInstance);
+  }
+  return connectWallet();
+}
+
+// Create the wallet and StorageHub clients that sign with the given transport and account
+function buildWalletClients(transport: Transport, account: `0x${string}` | LocalAccount) {
+  // Create wallet client with browser wallet or local account
+  walletClientInstance = createWalletClient({
+    chain: getChain(),
+    account,
+    transport,
+  });
+
+  // Create StorageHub client
+  storageHubClientInstance = new StorageHubClient({
+    rpcUrl: getActiveNetwork().rpcUrl,
+    chain: getChain(),
+    walletClient: walletClientInstance,
+    filesystemContractAddress: getActiveNetwork().filesystemContractAddress,
+  });
+}
+
 // Initialize Polkadot API for chain queries
 export async function initPolkadotApi(): Promise<ApiPromise> {
   if (polkadotApiInstance) {
     return polkadotApiInstance;
   }
 
-  const provider = new WsProvider(NETWORKS.testnet.wsUrl);
+  const provider = new WsProvider(getActiveNetwork().wsUrl);
   polkadotApiInstance = await ApiPromise.create({
     provider,
     typesBundle: types,
@@ -171,6 +254,14 @@ export function getConnectedAddress() {
   return connectedAddress;
 }
 
+export function getConnectedWalletRdns() {
+  return connectedWalletRdns;
+}
+
+export function isDevSignerConnected() {
+  return devAccountInstance !== null && walletClientInstance !== null;
+}
+
 export function isWalletConnected() {
   return walletClientInstance !== null && connectedAddress !== null;
 }
@@ -183,7 +274,7 @@ export async function restoreWalletConnection(): Promise<`0x${string}` | null> {
   }
 
   try {
-    const provider = getEthereumProvider();
+    const provider = await getEthereumProvider(connectedWalletRdns);
 
     // Check if wallet is still connected by getting accounts (without prompting)
     const accounts = (await provider.request({
@@ -203,20 +294,9 @@ export async function restoreWalletConnection(): Promise<`0x${string}` | null> {
     // Switch to the correct network
     await switchToCorrectNetwork(provider);
 
-    // Re-establish wallet client
-    walletClientInstance = createWalletClient({
-      chain,
-      account: connectedAddress,
-      transport: custom(provider),
-    });
-
-    // Re-create StorageHub client
-    storageHubClientInstance = new StorageHubClient({
-      rpcUrl: NETWORKS.testnet.rpcUrl,
-      chain: chain,
-      walletClient: walletClientInstance,
-      filesystemContractAddress: '0x0000000000000000000000000000000000000404' as `0x${string}`,
-    });
+    // Re-establish wallet and StorageHub clients
+    walletProviderInstance = provider;
+    buildWalletClients(custom(provider), connectedAddress);
 
     return connectedAddress;
   } catch {
@@ -226,15 +306,78 @@ export async function restoreWalletConnection(): Promise<`0x${string}` | null> {
   }
 }
 
+// Rebuild the signing clients, optionally for a different account of the connected wallet
+export function rebuildWalletClients(address?: `0x${string}`): `0x${string}` {
+  if (!walletProviderInstance || !connectedAddress) {
+    throw new Error('Wallet not connected. Please connect your wallet first.');
+  }
+
+  if (address) {
+    connectedAddress = address;
+  }
+  buildWalletClients(custom(walletProviderInstance), connectedAddress);
+
+  if (typeof window !== 'undefined') {
+    sessionStorage.setItem(CONNECTED_ADDRESS_KEY, connectedAddress);
+  }
+
+  return connectedAddress;
+}
+
+// Check whether a chain ID reported by the wallet matches the active network
+export function isActiveChainId(chainId: string | number): boolean {
+  return Number(chainId) === getActiveNetwork().id;
+}
+
+// Ask the connected wallet to switch back to the active network
+export async function switchWalletToActiveNetwork(): Promise<void> {
+  if (!walletProviderInstance) {
+    throw new Error('Wallet not connected. Please connect your wallet first.');
+  }
+  await switchToCorrectNetwork(walletProviderInstance);
+}
+
+export interface WalletEventHandlers {
+  onAccountsChanged: (accounts: `0x${string}`[]) => void;
+  onChainChanged: (chainId: string) => void;
+  onDisconnect: () => void;
+}
+
+// Subscribe to EIP-1193 events of the connected wallet; returns an unsubscribe function
+export function subscribeToWalletEvents(handlers: WalletEventHandlers): () => void {
+  const provider = walletProviderInstance;
+  if (!provider) {
+    return () => {};
+  }
+
+  const handleAccountsChanged = (accounts: `0x${string}`[]) => handlers.onAccountsChanged(accounts);
+  const handleChainChanged = (chainId: string) => handlers.onChainChanged(chainId);
+  const handleDisconnect = () => handlers.onDisconnect();
+
+  provider.on('accountsChanged', handleAccountsChanged);
+  provider.on('chainChanged', handleChainChanged);
+  provider.on('disconnect', handleDisconnect);
+
+  return () => {
+    provider.removeListener('accountsChanged', handleAccountsChanged);
+    provider.removeListener('chainChanged', handleChainChanged);
+    provider.removeListener('disconnect', handleDisconnect);
+  };
+}
+
 // Disconnect wallet
 export function disconnectWallet() {
+  walletProviderInstance = null;
+  devAccountInstance = null;
   walletClientInstance = null;
   storageHubClientInstance = null;
   connectedAddress = null;
+  connectedWalletRdns = null;
 
   // Clear session storage
   if (typeof window !== 'undefined') {
     sessionStorage.removeItem(CONNECTED_ADDRESS_KEY);
+    sessionStorage.removeItem(WALLET_RDNS_KEY);
   }
 }
 
@@ -246,20 +389,13 @@ export async function disconnectPolkadotApi() {
   }
 }
 
-// Build gas transaction options based on current network conditions
-export async function buildGasTxOpts(): Promise<EvmWriteOptions> {
-  const publicClient = getPublicClient();
-  const gas = BigInt('1500000');
-
-  // EIP-1559 fees based on latest block
-  const latestBlock = await publicClient.getBlock({ blockTag: 'latest' });
-  const baseFeePerGas = latestBlock.baseFeePerGas;
-  if (baseFeePerGas == null) {
-    throw new Error('RPC did not return baseFeePerGas for the latest block. Cannot build EIP-1559 fees.');
-  }
-
-  const maxPriorityFeePerGas = BigInt('1500000000'); // 1.5 gwei
-  const maxFeePerGas = baseFeePerGas * BigInt(2) + maxPriorityFeePerGas;
-
-  return { gas, maxFeePerGas, maxPriorityFeePerGas };
+// Tear down every network-bound client so they get rebuilt for the active network
+// (the chosen wallet and address are kept so the wallet can be reconnected)
+export async function resetClients() {
+  walletProviderInstance = null;
+  walletClientInstance = null;
+  storageHubClientInstance = null;
+  await disconnectPolkadotApi();
+  publicClientInstance = null;
+  chainInstance = null;
 }
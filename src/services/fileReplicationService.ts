@@ -0,0 +1,38 @@
+import type { FileReplication } from '../types';
+
+// Storage keys
+const FILE_REPLICATION_KEY = 'datahaven_file_replication';
+
+// State
+let fileReplications: Record<string, FileReplication> = {};
+
+// Initialize state from storage
+function initFromStorage() {
+  if (typeof window === 'undefined') return;
+
+  const stored = localStorage.getItem(FILE_REPLICATION_KEY);
+  if (stored) {
+    try {
+      fileReplications = JSON.parse(stored);
+    } catch {
+      // Invalid stored replication records, ignore
+    }
+  }
+}
+
+// Initialize on module load
+initFromStorage();
+
+// Remember the replication requested for a file, the MSP doesn't report it back
+export function recordFileReplication(fileKey: string, replication: FileReplication) {
+  fileReplications = { ...fileReplications, [fileKey]: replication };
+
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(FILE_REPLICATION_KEY, JSON.stringify(fileReplications));
+  }
+}
+
+// Get the replication requested for a file uploaded from this browser
+export function getFileReplication(fileKey: string): FileReplication | null {
+  return fileReplications[fileKey] ?? null;
+}
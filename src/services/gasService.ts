@@ -0,0 +1,159 @@
+import { filesystemAbi } from '@storagehub-sdk/core';
+import type { EvmWriteOptions } from '@storagehub-sdk/core';
+import { getConnectedAddress, getPublicClient } from './clientService';
+import { getActiveNetwork } from './networkService';
+import type { FilesystemCall, GasEstimate, GasPreset, GasSpeed } from '../types';
+
+// Storage keys
+const GAS_SPEED_KEY = 'datahaven_gas_speed';
+
+// Estimates are padded by 50% so small state changes between estimating and sending don't run out of gas
+const GAS_SAFETY_MULTIPLIER_PERCENT = BigInt(150);
+
+// Multiplier for the SDK's own estimate, used when a call can't be estimated up front
+const SDK_GAS_MULTIPLIER = 2;
+
+// Fee history window and the reward percentile used for each preset
+const FEE_HISTORY_BLOCKS = 10;
+const PRESET_PERCENTILES: Record<GasSpeed, number> = { slow: 25, normal: 50, fast: 75 };
+
+// Priority fee used when recent blocks carry no tips (e.g. an idle dev chain)
+const MIN_PRIORITY_FEE = BigInt('1000000000'); // 1 gwei
+
+type FeeOptions = Omit<GasPreset, 'estimatedCost'>;
+
+export const GAS_SPEEDS: GasSpeed[] = ['slow', 'normal', 'fast'];
+
+// State
+let gasSpeed: GasSpeed = 'normal';
+const listeners = new Set<() => void>();
+
+// Initialize state from storage
+function initFromStorage() {
+  if (typeof window === 'undefined') return;
+
+  const stored = localStorage.getItem(GAS_SPEED_KEY);
+  if (stored && (GAS_SPEEDS as string[]).includes(stored)) {
+    gasSpeed = stored as GasSpeed;
+  }
+}
+
+// Initialize on module load
+initFromStorage();
+
+// Get the selected fee preset
+export function getGasSpeed(): GasSpeed {
+  return gasSpeed;
+}
+
+// Select the fee preset used for all following transactions
+export function setGasSpeed(speed: GasSpeed) {
+  gasSpeed = speed;
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(GAS_SPEED_KEY, speed);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+// Subscribe to changes of the selected fee preset
+export function subscribeToGasSpeed(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Estimate the gas limit of a filesystem precompile call, including the safety margin
+async function estimateCallGas(call: FilesystemCall): Promise<bigint> {
+  const publicClient = getPublicClient();
+  const account = getConnectedAddress();
+
+  if (!account) {
+    throw new Error('Wallet not connected');
+  }
+
+  const estimate = await publicClient.estimateContractGas({
+    address: getActiveNetwork().filesystemContractAddress,
+    abi: filesystemAbi,
+    functionName: call.functionName,
+    args: call.args,
+    account,
+  } as Parameters<typeof publicClient.estimateContractGas>[0]);
+
+  return (estimate * GAS_SAFETY_MULTIPLIER_PERCENT) / BigInt(100);
+}
+
+// Derive EIP-1559 fees for each preset from recent priority fees
+async function getFeePresets(): Promise<{ baseFeePerGas: bigint; fees: Record<GasSpeed, FeeOptions> }> {
+  const publicClient = getPublicClient();
+
+  const history = await publicClient.getFeeHistory({
+    blockCount: FEE_HISTORY_BLOCKS,
+    rewardPercentiles: GAS_SPEEDS.map((speed) => PRESET_PERCENTILES[speed]),
+    blockTag: 'latest',
+  });
+
+  // The last entry is the base fee of the next block
+  const baseFeePerGas = history.baseFeePerGas[history.baseFeePerGas.length - 1];
+  if (baseFeePerGas == null) {
+    throw new Error('RPC did not return baseFeePerGas in fee history. Cannot build EIP-1559 fees.');
+  }
+
+  const rewards = history.reward ?? [];
+  const fees = {} as Record<GasSpeed, FeeOptions>;
+
+  GAS_SPEEDS.forEach((speed, index) => {
+    const samples = rewards.map((blockRewards) => blockRewards[index] ?? BigInt(0));
+    const average = samples.length
+      ? samples.reduce((sum, reward) => sum + reward, BigInt(0)) / BigInt(samples.length)
+      : BigInt(0);
+    const maxPriorityFeePerGas = average > MIN_PRIORITY_FEE ? average : MIN_PRIORITY_FEE;
+
+    fees[speed] = {
+      maxPriorityFeePerGas,
+      // Leave room for the base fee to double before the transaction is included
+      maxFeePerGas: baseFeePerGas * BigInt(2) + maxPriorityFeePerGas,
+    };
+  });
+
+  return { baseFeePerGas, fees };
+}
+
+// Price a gas limit under every fee preset
+function buildGasEstimate(gas: bigint, baseFeePerGas: bigint, fees: Record<GasSpeed, FeeOptions>): GasEstimate {
+  const presets = {} as Record<GasSpeed, GasPreset>;
+  GAS_SPEEDS.forEach((speed) => {
+    presets[speed] = {
+      ...fees[speed],
+      estimatedCost: gas * (baseFeePerGas + fees[speed].maxPriorityFeePerGas),
+    };
+  });
+
+  return { gas, presets };
+}
+
+// Estimate the gas and the cost of a call under every fee preset
+export async function estimateGasCosts(call: FilesystemCall): Promise<GasEstimate> {
+  const [gas, { baseFeePerGas, fees }] = await Promise.all([estimateCallGas(call), getFeePresets()]);
+  return buildGasEstimate(gas, baseFeePerGas, fees);
+}
+
+// Cost of a fixed gas limit under every fee preset, for calls that can't be estimated yet
+export async function estimateGasCostsForLimit(gas: bigint): Promise<GasEstimate> {
+  const { baseFeePerGas, fees } = await getFeePresets();
+  return buildGasEstimate(gas, baseFeePerGas, fees);
+}
+
+// Build gas transaction options for a call using the selected fee preset.
+// Without a call (e.g. when the arguments only exist inside the SDK) the SDK estimates the gas itself.
+export async function buildGasTxOpts(call?: FilesystemCall): Promise<EvmWriteOptions> {
+  const { fees } = await getFeePresets();
+  const { maxFeePerGas, maxPriorityFeePerGas } = fees[gasSpeed];
+
+  if (!call) {
+    return { gasMultiplier: SDK_GAS_MULTIPLIER, maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  const gas = await estimateCallGas(call);
+  return { gas, maxFeePerGas, maxPriorityFeePerGas };
+}
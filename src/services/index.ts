@@ -3,27 +3,94 @@ export {
   disconnectWallet,
   restoreWalletConnection,
   getConnectedAddress,
+  getConnectedWalletRdns,
   getPublicClient,
   getWalletClient,
   getStorageHubClient,
   getPolkadotApi,
   initPolkadotApi,
   disconnectPolkadotApi,
-  buildGasTxOpts,
   isWalletConnected,
+  getChain,
+  resetClients,
+  rebuildWalletClients,
+  connectDevSigner,
+  reconnectWallet,
+  isDevSignerConnected,
+  isActiveChainId,
+  switchWalletToActiveNetwork,
+  subscribeToWalletEvents,
 } from './clientService';
 
 export {
   connectToMsp,
+  getMspUrl,
+  getKnownMspEndpoint,
   getMspClient,
   isMspConnected,
   getMspHealth,
   getMspInfo,
   authenticateUser,
+  getValuePropositions,
   getValueProps,
+  uploadFileStream,
   isAuthenticated,
   getUserProfile,
   disconnectMsp,
   clearSession,
   isAuthError,
+  isNotFoundError,
 } from './mspService';
+
+export { getDiscoveredWallets, subscribeToWallets, waitForWallet } from './walletDiscoveryService';
+
+export {
+  getNetworks,
+  isCustomNetwork,
+  getActiveNetwork,
+  getActiveNetworkKey,
+  setActiveNetwork,
+  saveCustomNetwork,
+  deleteCustomNetwork,
+  validateNetwork,
+} from './networkService';
+
+export {
+  getUploadJournal,
+  getUploadJournalEntry,
+  subscribeToUploadJournal,
+  saveUploadJournalEntry,
+  updateUploadJournalStage,
+  removeUploadJournalEntry,
+} from './uploadJournalService';
+
+export { recordFileReplication, getFileReplication } from './fileReplicationService';
+
+export {
+  GAS_SPEEDS,
+  getGasSpeed,
+  setGasSpeed,
+  subscribeToGasSpeed,
+  estimateGasCosts,
+  estimateGasCostsForLimit,
+  buildGasTxOpts,
+} from './gasService';
+
+export {
+  getTransactions,
+  getTransaction,
+  subscribeToTransactions,
+  recordTransaction,
+  updateTransaction,
+  clearTransactionHistory,
+} from './transactionHistoryService';
+
+export {
+  getPendingTransactions,
+  findPendingTransaction,
+  savePendingTransaction,
+  updatePendingTransactionStep,
+  removePendingTransaction,
+} from './pendingTransactionService';
+
+export { getBalance, subscribeToBalance, refreshBalance, clearBalance } from './balanceService';
@@ -0,0 +1,147 @@
+import { mkdtemp, open, rm } from 'node:fs/promises';
+import { openAsBlob } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { setFlagsFromString } from 'node:v8';
+import { runInNewContext } from 'node:vm';
+import { FileManager } from '@storagehub-sdk/core';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { connectToMsp, uploadFileStream } from './mspService';
+
+vi.mock('./clientService', () => ({
+  getConnectedAddress: () => null,
+  getWalletClient: () => null,
+}));
+
+vi.mock('./networkService', () => ({
+  getActiveNetworkKey: () => 'test',
+  getActiveNetwork: () => ({ name: 'Test', mspUrl: 'http://msp.test/' }),
+}));
+
+vi.mock('@storagehub-sdk/msp-client', () => ({
+  MspClient: {
+    connect: async (config: { baseUrl: string }) => ({
+      config,
+      info: { getInfo: async () => ({ mspId: '0x01' }) },
+    }),
+  },
+}));
+
+const MiB = 1024 * 1024;
+// Large enough that buffering the file would dwarf the allowed peak
+const FILE_SIZE = 256 * MiB;
+// Fingerprinting is slow in a test run, so this one is smaller but still well past the allowed peak
+const FINGERPRINT_FILE_SIZE = 64 * MiB;
+const MAX_BUFFERED_BYTES = 32 * MiB;
+
+// Collect garbage before each sample, so peaks count buffers still held rather than ones not yet collected
+setFlagsFromString('--expose-gc');
+const collectGarbage = runInNewContext('gc') as () => void;
+
+// Track the peak of ArrayBuffer memory held while data flows through, sampled once per MiB
+function createBufferSampler() {
+  collectGarbage();
+  const baseline = process.memoryUsage().arrayBuffers;
+  let seenBytes = 0;
+  let peak = 0;
+  return {
+    sample(byteLength: number) {
+      const before = seenBytes;
+      seenBytes += byteLength;
+      if (Math.floor(seenBytes / MiB) === Math.floor(before / MiB)) return;
+      collectGarbage();
+      peak = Math.max(peak, process.memoryUsage().arrayBuffers - baseline);
+    },
+    peak: () => peak,
+  };
+}
+
+let dir: string;
+let filePath: string;
+let fingerprintFilePath: string;
+
+// A sparse file, so the synthetic input takes no memory or disk space of its own
+async function createSparseFile(path: string, size: number) {
+  const handle = await open(path, 'w');
+  await handle.truncate(size);
+  await handle.close();
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'msp-upload-'));
+  filePath = join(dir, 'large.bin');
+  fingerprintFilePath = join(dir, 'fingerprint.bin');
+  await createSparseFile(filePath, FILE_SIZE);
+  await createSparseFile(fingerprintFilePath, FINGERPRINT_FILE_SIZE);
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('FileManager fingerprint', () => {
+  it('fingerprints a large file with bounded buffering', async () => {
+    let readBytes = 0;
+    const buffered = createBufferSampler();
+
+    // Same FileManager setup as uploadFile, with the stream sampled as the chunks go by
+    const file = await openAsBlob(fingerprintFilePath);
+    const fileManager = new FileManager({
+      size: file.size,
+      stream: () =>
+        file.stream().pipeThrough(
+          new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+              readBytes += chunk.byteLength;
+              buffered.sample(chunk.byteLength);
+              controller.enqueue(chunk);
+            },
+          })
+        ),
+    });
+
+    const fingerprint = await fileManager.getFingerprint();
+
+    expect(fingerprint.toHex()).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(readBytes).toBe(FINGERPRINT_FILE_SIZE);
+    expect(buffered.peak()).toBeLessThan(MAX_BUFFERED_BYTES);
+  }, 120000);
+});
+
+describe('uploadFileStream', () => {
+  it('streams a large file to the MSP with bounded buffering', async () => {
+    let receivedBytes = 0;
+    let largestChunk = 0;
+    let requestUrl = '';
+    const buffered = createBufferSampler();
+
+    // Mocked MSP endpoint that reads the multipart body chunk by chunk and drops each chunk
+    vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+      requestUrl = url;
+      const reader = new Request(url, init).body!.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        receivedBytes += value.byteLength;
+        largestChunk = Math.max(largestChunk, value.byteLength);
+        buffered.sample(value.byteLength);
+      }
+      return new Response(JSON.stringify({ status: 'upload_successful', fileKey: '0xfile' }), { status: 200 });
+    });
+
+    await connectToMsp({ url: 'http://msp.test/' });
+    const file = await openAsBlob(filePath);
+    const receipt = await uploadFileStream('0xbucket', '0xfile', file, new Uint8Array([1, 2, 3]));
+
+    expect(receipt).toEqual({ status: 'upload_successful', fileKey: '0xfile' });
+    expect(requestUrl).toBe('http://msp.test/buckets/0xbucket/upload/0xfile');
+    // The whole file went out, plus the multipart framing and metadata
+    expect(receivedBytes).toBeGreaterThan(FILE_SIZE);
+    expect(largestChunk).toBeLessThan(MAX_BUFFERED_BYTES);
+    expect(buffered.peak()).toBeLessThan(MAX_BUFFERED_BYTES);
+  }, 120000);
+});
@@ -1,54 +1,122 @@
 import { MspClient } from '@storagehub-sdk/msp-client';
-import type { HealthStatus, InfoResponse, UserInfo, ValueProp } from '@storagehub-sdk/msp-client';
+import type { HealthStatus, InfoResponse, UploadReceipt, UserInfo, ValueProp } from '@storagehub-sdk/msp-client';
 import type { HttpClientConfig } from '@storagehub-sdk/core';
 import { getConnectedAddress, getWalletClient } from './clientService';
-import { NETWORKS } from '../config/networks';
+import { getActiveNetwork, getActiveNetworkKey } from './networkService';
+import type { MspSelection } from '../types';
 
 // Storage keys
-const SESSION_TOKEN_KEY = 'datahaven_session_token';
-const USER_PROFILE_KEY = 'datahaven_user_profile';
+const SESSIONS_KEY = 'datahaven_msp_sessions';
+const MSP_URLS_KEY = 'datahaven_msp_urls';
+const MSP_ENDPOINTS_KEY = 'datahaven_msp_endpoints';
+
+// SIWE session issued by one MSP backend to one address
+interface MspSession {
+  token: string;
+  // Missing until the profile has been fetched with the new token
+  profile?: UserInfo;
+}
 
 // State
 let mspClientInstance: MspClient | null = null;
-let sessionToken: string | undefined = undefined;
-let authenticatedUserProfile: UserInfo | null = null;
+let mspClientUrl: string | null = null;
+// Sessions keyed by MSP URL and address, so switching providers keeps earlier sign-ins
+let sessions: Record<string, MspSession> = {};
+// Backend URL chosen per network
+let selectedMspUrls: Record<string, string> = {};
+// Backend URL last used for each on-chain MSP ID
+let knownMspEndpoints: Record<string, string> = {};
 
 // Initialize state from storage
 function initFromStorage() {
   if (typeof window === 'undefined') return;
 
-  const storedToken = sessionStorage.getItem(SESSION_TOKEN_KEY);
-  const storedProfile = sessionStorage.getItem(USER_PROFILE_KEY);
-
-  if (storedToken) {
-    sessionToken = storedToken;
+  try {
+    sessions = JSON.parse(sessionStorage.getItem(SESSIONS_KEY) ?? '{}');
+  } catch {
+    // Invalid stored sessions, ignore
   }
-  if (storedProfile) {
-    try {
-      authenticatedUserProfile = JSON.parse(storedProfile);
-    } catch {
-      // Invalid stored profile, ignore
-    }
+  try {
+    selectedMspUrls = JSON.parse(localStorage.getItem(MSP_URLS_KEY) ?? '{}');
+    knownMspEndpoints = JSON.parse(localStorage.getItem(MSP_ENDPOINTS_KEY) ?? '{}');
+  } catch {
+    // Invalid stored MSP selection, ignore
   }
 }
 
 // Initialize on module load
 initFromStorage();
 
+function persistSessions() {
+  if (typeof window === 'undefined') return;
+  sessionStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+}
+
+// Trailing slashes don't make a different backend
+function normalizeMspUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+// Backend URL for the active network: the user's choice, or the network's configured MSP
+export function getMspUrl(): string {
+  if (mspClientUrl) return mspClientUrl;
+  const network = getActiveNetwork();
+  return selectedMspUrls[getActiveNetworkKey()] ?? normalizeMspUrl(network.mspUrl);
+}
+
+// Backend URL last used for an on-chain MSP, if any
+export function getKnownMspEndpoint(mspId: string): string | undefined {
+  return knownMspEndpoints[mspId.toLowerCase()];
+}
+
+function getSessionKey(): string | null {
+  const address = getConnectedAddress();
+  return address ? `${getMspUrl()}|${address.toLowerCase()}` : null;
+}
+
+function getCurrentSession(): MspSession | undefined {
+  const key = getSessionKey();
+  return key ? sessions[key] : undefined;
+}
+
 // Session provider for authenticated requests
 const sessionProvider = async () => {
   const address = getConnectedAddress();
-  return sessionToken && address ? ({ token: sessionToken, user: { address } } as const) : undefined;
+  const session = getCurrentSession();
+  return session && address ? ({ token: session.token, user: { address } } as const) : undefined;
 };
 
-// Connect to MSP
-export async function connectToMsp(): Promise<MspClient> {
-  if (mspClientInstance) {
+// Connect to an MSP backend. Without a URL the last chosen backend for the network is used.
+// With an expected MSP ID, the backend must report that on-chain provider ID.
+export async function connectToMsp(selection: MspSelection = {}): Promise<MspClient> {
+  const url = selection.url ? normalizeMspUrl(selection.url) : getMspUrl();
+  if (mspClientInstance && mspClientUrl === url && !selection.expectedMspId) {
     return mspClientInstance;
   }
 
-  const httpCfg: HttpClientConfig = { baseUrl: NETWORKS.testnet.mspUrl };
-  mspClientInstance = await MspClient.connect(httpCfg, sessionProvider);
+  if (!url) {
+    throw new Error(`No MSP endpoint configured for ${getActiveNetwork().name}`);
+  }
+
+  const httpCfg: HttpClientConfig = { baseUrl: url };
+  const client = await MspClient.connect(httpCfg, sessionProvider);
+  const info = await client.info.getInfo();
+
+  if (selection.expectedMspId && info.mspId.toLowerCase() !== selection.expectedMspId.toLowerCase()) {
+    throw new Error(`MSP at ${url} reports ID ${info.mspId}, not the selected provider ${selection.expectedMspId}`);
+  }
+
+  mspClientInstance = client;
+  mspClientUrl = url;
+
+  // Remember the choice for this network and the endpoint of this provider
+  selectedMspUrls[getActiveNetworkKey()] = url;
+  knownMspEndpoints[info.mspId.toLowerCase()] = url;
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(MSP_URLS_KEY, JSON.stringify(selectedMspUrls));
+    localStorage.setItem(MSP_ENDPOINTS_KEY, JSON.stringify(knownMspEndpoints));
+  }
+
   return mspClientInstance;
 }
 
@@ -89,23 +157,31 @@ export async function authenticateUser(): Promise<UserInfo> {
   const domain = window.location.hostname || 'localhost';
   const uri = window.location.origin || 'http://localhost';
 
-  const siweSession = await client.auth.SIWE(walletClient, domain, uri);
-  sessionToken = (siweSession as { token: string }).token;
+  const sessionKey = getSessionKey();
+  if (!sessionKey) {
+    throw new Error('Wallet not connected. Please connect your wallet first.');
+  }
 
-  const profile: UserInfo = await client.auth.getProfile();
-  authenticatedUserProfile = profile;
+  const siweSession = await client.auth.SIWE(walletClient, domain, uri);
+  const token = (siweSession as { token: string }).token;
 
-  // Persist to session storage
-  if (typeof window !== 'undefined') {
-    sessionStorage.setItem(SESSION_TOKEN_KEY, sessionToken);
-    sessionStorage.setItem(USER_PROFILE_KEY, JSON.stringify(profile));
+  // The profile request must already carry the new token
+  sessions[sessionKey] = { token };
+  try {
+    const profile: UserInfo = await client.auth.getProfile();
+    sessions[sessionKey] = { token, profile };
+    return profile;
+  } catch (error) {
+    delete sessions[sessionKey];
+    throw error;
+  } finally {
+    // Persist to session storage
+    persistSessions();
   }
-
-  return profile;
 }
 
-// Get value propositions
-export async function getValueProps(): Promise<`0x${string}`> {
+// Get all value propositions offered by the MSP
+export async function getValuePropositions(): Promise<ValueProp[]> {
   const client = getMspClient();
   const valueProps: ValueProp[] = await client.info.getValuePropositions();
 
@@ -113,29 +189,83 @@ export async function getValueProps(): Promise<`0x${string}`> {
     throw new Error('No value propositions available from MSP');
   }
 
-  // For simplicity, select the first value proposition
-  const valuePropId = valueProps[0].id as `0x${string}`;
-  return valuePropId;
+  return valueProps;
+}
+
+// Get the id of a value proposition, checking that the chosen one is offered and available.
+// Without a choice, the first available value proposition is used.
+export async function getValueProps(valuePropId?: string): Promise<`0x${string}`> {
+  const valueProps = await getValuePropositions();
+
+  if (!valuePropId) {
+    const valueProp = valueProps.find((vp) => vp.isAvailable) ?? valueProps[0];
+    return valueProp.id as `0x${string}`;
+  }
+
+  const valueProp = valueProps.find((vp) => vp.id === valuePropId);
+  if (!valueProp) {
+    throw new Error(`Value proposition not offered by MSP: ${valuePropId}`);
+  }
+  if (!valueProp.isAvailable) {
+    throw new Error(`Value proposition is not available: ${valuePropId}`);
+  }
+
+  return valueProp.id as `0x${string}`;
 }
 
-// Check if user is authenticated
+// Upload a file to the MSP without reading it into memory.
+// The SDK's files.uploadFile() buffers the whole file to re-fingerprint it, so we
+// send the multipart body ourselves and let the browser stream the Blob from disk.
+export async function uploadFileStream(
+  bucketId: string,
+  fileKey: string,
+  file: Blob,
+  fileMetadata: Uint8Array,
+  signal?: AbortSignal
+): Promise<UploadReceipt> {
+  const client = getMspClient();
+
+  const body = new FormData();
+  const metadataBlob = new Blob([new Uint8Array(fileMetadata)], { type: 'application/octet-stream' });
+  body.append('file_metadata', metadataBlob, 'file_metadata');
+  body.append('file', file, 'file');
+
+  const headers: Record<string, string> = {};
+  const session = getCurrentSession();
+  if (session) {
+    headers.Authorization = `Bearer ${session.token}`;
+  }
+
+  const baseUrl = client.config.baseUrl.replace(/\/+$/, '');
+  const url = `${baseUrl}/buckets/${encodeURIComponent(bucketId)}/upload/${encodeURIComponent(fileKey)}`;
+  const response = await fetch(url, { method: 'PUT', body, headers, signal });
+
+  if (!response.ok) {
+    const message = await response.text().catch(() => '');
+    throw Object.assign(new Error(`MSP upload failed (${response.status}): ${message || response.statusText}`), {
+      status: response.status,
+    });
+  }
+
+  return (await response.json()) as UploadReceipt;
+}
+
+// Check if the connected address has a session with the current MSP
 export function isAuthenticated(): boolean {
-  return sessionToken !== undefined && authenticatedUserProfile !== null;
+  return getCurrentSession()?.profile !== undefined;
 }
 
 // Get authenticated user profile
 export function getUserProfile(): UserInfo | null {
-  return authenticatedUserProfile;
+  return getCurrentSession()?.profile ?? null;
 }
 
-// Clear auth session (used when server returns 401)
+// Clear the session with the current MSP (used when server returns 401)
 export function clearSession() {
-  sessionToken = undefined;
-  authenticatedUserProfile = null;
-
-  if (typeof window !== 'undefined') {
-    sessionStorage.removeItem(SESSION_TOKEN_KEY);
-    sessionStorage.removeItem(USER_PROFILE_KEY);
+  const key = getSessionKey();
+  if (key) {
+    delete sessions[key];
+    persistSessions();
   }
 }
 
@@ -145,8 +275,18 @@ export function isAuthError(error: unknown): boolean {
   return err?.status === 401 || err?.response?.status === 401;
 }
 
-// Reset MSP connection
-export function disconnectMsp() {
+// Check if an error means the MSP backend hasn't indexed the record (yet)
+export function isNotFoundError(error: unknown): boolean {
+  const err = error as { status?: number; body?: { error?: string } };
+  return err?.status === 404 || err?.body?.error === 'Not found: Record';
+}
+
+// Reset the MSP connection. Sessions stay stored per MSP unless clearSessions is set (e.g. on logout).
+export function disconnectMsp(clearSessions: boolean = false) {
   mspClientInstance = null;
-  clearSession();
+  mspClientUrl = null;
+  if (clearSessions) {
+    sessions = {};
+    persistSessions();
+  }
 }
@@ -0,0 +1,147 @@
+import { createPublicClient, http, isAddress } from 'viem';
+import { MspClient } from '@storagehub-sdk/msp-client';
+import { NETWORKS, DEFAULT_NETWORK_KEY } from '../config/networks';
+import type { NetworkConfig } from '../config/networks';
+
+// Storage keys
+const ACTIVE_NETWORK_KEY = 'datahaven_active_network';
+const CUSTOM_NETWORKS_KEY = 'datahaven_custom_networks';
+
+// State
+let activeNetworkKey: string = DEFAULT_NETWORK_KEY;
+let customNetworks: Record<string, NetworkConfig> = {};
+
+// Initialize custom networks and active network from storage
+function initFromStorage() {
+  if (typeof window === 'undefined') return;
+
+  const storedNetworks = localStorage.getItem(CUSTOM_NETWORKS_KEY);
+  if (storedNetworks) {
+    try {
+      customNetworks = JSON.parse(storedNetworks);
+    } catch {
+      // Invalid stored networks, ignore
+    }
+  }
+
+  const storedKey = localStorage.getItem(ACTIVE_NETWORK_KEY);
+  if (storedKey && getNetworks()[storedKey]) {
+    activeNetworkKey = storedKey;
+  }
+}
+
+function persistCustomNetworks() {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(CUSTOM_NETWORKS_KEY, JSON.stringify(customNetworks));
+  }
+}
+
+// Initialize on module load
+initFromStorage();
+
+// Get all registered networks (built-in and user-defined)
+export function getNetworks(): Record<string, NetworkConfig> {
+  return { ...NETWORKS, ...customNetworks };
+}
+
+// Check if a network was defined by the user
+export function isCustomNetwork(networkKey: string): boolean {
+  return networkKey in customNetworks;
+}
+
+// Get the key of the active network
+export function getActiveNetworkKey(): string {
+  return activeNetworkKey;
+}
+
+// Get the active network configuration
+export function getActiveNetwork(): NetworkConfig {
+  return getNetworks()[activeNetworkKey];
+}
+
+// Change the active network (callers are responsible for rebuilding clients)
+export function setActiveNetwork(networkKey: string) {
+  if (!getNetworks()[networkKey]) {
+    throw new Error(`Unknown network: ${networkKey}`);
+  }
+
+  activeNetworkKey = networkKey;
+
+  // Persist to local storage
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(ACTIVE_NETWORK_KEY, networkKey);
+  }
+}
+
+// Add or update a user-defined network
+export function saveCustomNetwork(networkKey: string, network: NetworkConfig) {
+  if (NETWORKS[networkKey]) {
+    throw new Error(`Built-in network ${networkKey} cannot be modified`);
+  }
+
+  customNetworks = { ...customNetworks, [networkKey]: network };
+  persistCustomNetworks();
+}
+
+// Remove a user-defined network
+export function deleteCustomNetwork(networkKey: string) {
+  if (!isCustomNetwork(networkKey)) {
+    throw new Error(`Network ${networkKey} is not a custom network`);
+  }
+  if (networkKey === activeNetworkKey) {
+    throw new Error('Cannot delete the active network. Switch to another network first.');
+  }
+
+  const remaining = { ...customNetworks };
+  delete remaining[networkKey];
+  customNetworks = remaining;
+  persistCustomNetworks();
+}
+
+// Validate a network definition by checking its fields and probing its endpoints
+export async function validateNetwork(network: NetworkConfig): Promise<void> {
+  if (!network.name.trim()) {
+    throw new Error('Network name is required');
+  }
+  if (!Number.isInteger(network.id) || network.id <= 0) {
+    throw new Error('Chain ID must be a positive integer');
+  }
+  if (!/^https?:\/\//.test(network.rpcUrl)) {
+    throw new Error('RPC URL must start with http:// or https://');
+  }
+  if (!/^wss?:\/\//.test(network.wsUrl)) {
+    throw new Error('WebSocket URL must start with ws:// or wss://');
+  }
+  if (!/^https?:\/\//.test(network.mspUrl)) {
+    throw new Error('MSP URL must start with http:// or https://');
+  }
+  if (!network.nativeCurrency.symbol.trim()) {
+    throw new Error('Currency symbol is required');
+  }
+  if (!Number.isInteger(network.nativeCurrency.decimals) || network.nativeCurrency.decimals < 0) {
+    throw new Error('Currency decimals must be a non-negative integer');
+  }
+  if (!isAddress(network.filesystemContractAddress)) {
+    throw new Error('Filesystem contract address is not a valid address');
+  }
+
+  // Probe the RPC endpoint and compare the reported chain ID
+  let rpcChainId: number;
+  try {
+    const publicClient = createPublicClient({ transport: http(network.rpcUrl) });
+    rpcChainId = await publicClient.getChainId();
+  } catch {
+    throw new Error(`RPC endpoint did not respond to eth_chainId: ${network.rpcUrl}`);
+  }
+  if (rpcChainId !== network.id) {
+    throw new Error(`Chain ID mismatch: RPC reports ${rpcChainId}, expected ${network.id}`);
+  }
+
+  // Probe the MSP backend health endpoint
+  try {
+    const mspClient = await MspClient.connect({ baseUrl: network.mspUrl });
+    await mspClient.info.getHealth();
+  } catch {
+    throw new Error(`MSP backend did not respond to a health check: ${network.mspUrl}`);
+  }
+}
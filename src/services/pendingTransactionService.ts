@@ -0,0 +1,61 @@
+import type { PendingTransaction } from '../types';
+
+// Storage keys
+const PENDING_TRANSACTIONS_KEY = 'datahaven_pending_transactions';
+
+// State
+let pendingTransactions: PendingTransaction[] = [];
+
+function persist() {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(PENDING_TRANSACTIONS_KEY, JSON.stringify(pendingTransactions));
+  }
+}
+
+// Initialize state from storage
+function initFromStorage() {
+  if (typeof window === 'undefined') return;
+
+  const stored = localStorage.getItem(PENDING_TRANSACTIONS_KEY);
+  if (stored) {
+    try {
+      pendingTransactions = JSON.parse(stored);
+    } catch {
+      // Invalid stored pending transactions, ignore
+    }
+  }
+}
+
+// Initialize on module load
+initFromStorage();
+
+// Get all pending transactions
+export function getPendingTransactions(): PendingTransaction[] {
+  return pendingTransactions;
+}
+
+// Find the pending transaction of an operation on a bucket
+export function findPendingTransaction(
+  operation: PendingTransaction['operation'],
+  bucketId: string
+): PendingTransaction | null {
+  return pendingTransactions.find((tx) => tx.operation === operation && tx.bucketId === bucketId) ?? null;
+}
+
+// Persist a submitted transaction before waiting on it
+export function savePendingTransaction(transaction: PendingTransaction) {
+  pendingTransactions = [...pendingTransactions.filter((tx) => tx.hash !== transaction.hash), transaction];
+  persist();
+}
+
+// Record that a pending transaction moved on to its next follow-up step
+export function updatePendingTransactionStep(hash: string, step: PendingTransaction['step']) {
+  pendingTransactions = pendingTransactions.map((tx) => (tx.hash === hash ? { ...tx, step, updatedAt: Date.now() } : tx));
+  persist();
+}
+
+// Forget a pending transaction once all its steps finished or failed
+export function removePendingTransaction(hash: string) {
+  pendingTransactions = pendingTransactions.filter((tx) => tx.hash !== hash);
+  persist();
+}
@@ -0,0 +1,73 @@
+import type { TransactionRecord } from '../types';
+
+// Storage keys
+const TRANSACTION_HISTORY_KEY = 'datahaven_transactions';
+
+// Oldest records are dropped beyond this many
+const MAX_TRANSACTIONS = 500;
+
+// State, newest first
+let transactions: TransactionRecord[] = [];
+const listeners = new Set<() => void>();
+
+function persist() {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(TRANSACTION_HISTORY_KEY, JSON.stringify(transactions));
+  }
+  listeners.forEach((listener) => listener());
+}
+
+// Initialize state from storage
+function initFromStorage() {
+  if (typeof window === 'undefined') return;
+
+  const stored = localStorage.getItem(TRANSACTION_HISTORY_KEY);
+  if (stored) {
+    try {
+      transactions = JSON.parse(stored);
+    } catch {
+      // Invalid stored transaction history, ignore
+    }
+  }
+}
+
+// Initialize on module load
+initFromStorage();
+
+// Get all recorded transactions, newest first
+export function getTransactions(): TransactionRecord[] {
+  return transactions;
+}
+
+// Get a recorded transaction by hash
+export function getTransaction(hash: string): TransactionRecord | null {
+  return transactions.find((tx) => tx.hash === hash) ?? null;
+}
+
+// Subscribe to transaction history changes
+export function subscribeToTransactions(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Record a submitted transaction, replacing an earlier record with the same hash
+export function recordTransaction(record: TransactionRecord) {
+  transactions = [record, ...transactions.filter((tx) => tx.hash !== record.hash)].slice(0, MAX_TRANSACTIONS);
+  persist();
+}
+
+// Update fields of a recorded transaction
+export function updateTransaction(hash: string, changes: Partial<Omit<TransactionRecord, 'hash'>>) {
+  if (!getTransaction(hash)) return;
+
+  transactions = transactions.map((tx) => (tx.hash === hash ? { ...tx, ...changes } : tx));
+  persist();
+}
+
+// Forget all recorded transactions
+export function clearTransactionHistory() {
+  transactions = [];
+  persist();
+}
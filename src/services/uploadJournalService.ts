@@ -0,0 +1,112 @@
+import type { UploadJournalEntry } from '../types';
+
+// IndexedDB settings
+const DB_NAME = 'datahaven_uploads';
+const DB_VERSION = 1;
+const STORE_NAME = 'journal';
+
+// State
+let journalEntries: UploadJournalEntry[] = [];
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'fileKey' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+// Run a single request against the journal store and wait for its transaction to complete
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    // An aborted transaction doesn't always fire error first (e.g. quota exceeded or abort())
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+// Initialize state from storage
+async function initFromStorage() {
+  if (typeof indexedDB === 'undefined') return;
+
+  try {
+    const stored = await runRequest('readonly', (store) => store.getAll());
+    // Entries written while loading take precedence over the stored copies
+    journalEntries = [...stored.filter((e) => !getUploadJournalEntry(e.fileKey)), ...journalEntries];
+    notify();
+  } catch {
+    // IndexedDB unavailable (e.g. private browsing), keep the journal in memory only
+  }
+}
+
+// Initialize on module load
+initFromStorage();
+
+// Get all journal entries
+export function getUploadJournal(): UploadJournalEntry[] {
+  return journalEntries;
+}
+
+// Get the journal entry for a file key
+export function getUploadJournalEntry(fileKey: string): UploadJournalEntry | undefined {
+  return journalEntries.find((entry) => entry.fileKey === fileKey);
+}
+
+// Subscribe to changes in the journal
+export function subscribeToUploadJournal(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Add or replace a journal entry
+export async function saveUploadJournalEntry(entry: UploadJournalEntry): Promise<void> {
+  journalEntries = [...journalEntries.filter((e) => e.fileKey !== entry.fileKey), entry];
+  notify();
+
+  try {
+    await runRequest('readwrite', (store) => store.put(entry));
+  } catch {
+    // Persisting is best effort, the in-memory journal is still up to date
+  }
+}
+
+// Move a journal entry to a new stage
+export async function updateUploadJournalStage(fileKey: string, stage: UploadJournalEntry['stage']): Promise<void> {
+  const entry = getUploadJournalEntry(fileKey);
+  if (!entry) return;
+
+  await saveUploadJournalEntry({ ...entry, stage, updatedAt: Date.now() });
+}
+
+// Remove a journal entry once its upload has finished or been abandoned
+export async function removeUploadJournalEntry(fileKey: string): Promise<void> {
+  journalEntries = journalEntries.filter((entry) => entry.fileKey !== fileKey);
+  notify();
+
+  try {
+    await runRequest('readwrite', (store) => store.delete(fileKey));
+  } catch {
+    // Persisting is best effort, the in-memory journal is still up to date
+  }
+}
@@ -0,0 +1,67 @@
+import type { WalletProviderDetail } from '../types';
+
+// State
+let discoveredWallets: WalletProviderDetail[] = [];
+const listeners = new Set<() => void>();
+
+// Handle an EIP-6963 provider announcement
+function handleAnnounce(event: Event) {
+  const detail = (event as CustomEvent<WalletProviderDetail>).detail;
+  if (!detail?.info?.rdns || !detail.provider) return;
+
+  // Replace any earlier announcement from the same wallet
+  discoveredWallets = [...discoveredWallets.filter((w) => w.info.rdns !== detail.info.rdns), detail];
+  listeners.forEach((listener) => listener());
+}
+
+// Start listening for wallet announcements and ask installed wallets to announce themselves
+function startDiscovery() {
+  if (typeof window === 'undefined') return;
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+}
+
+// Initialize on module load
+startDiscovery();
+
+// Get all wallets announced so far
+export function getDiscoveredWallets(): WalletProviderDetail[] {
+  return discoveredWallets;
+}
+
+// Subscribe to changes in the discovered wallet list
+export function subscribeToWallets(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Wait for a wallet with the given rdns to be announced (extensions may announce after page load)
+export function waitForWallet(rdns: string, timeoutMs: number = 1000): Promise<WalletProviderDetail | null> {
+  const existing = discoveredWallets.find((w) => w.info.rdns === rdns);
+  if (existing) {
+    return Promise.resolve(existing);
+  }
+
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      unsubscribe();
+      resolve(null);
+    }, timeoutMs);
+
+    const unsubscribe = subscribeToWallets(() => {
+      const wallet = discoveredWallets.find((w) => w.info.rdns === rdns);
+      if (wallet) {
+        clearTimeout(timeout);
+        unsubscribe();
+        resolve(wallet);
+      }
+    });
+
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new Event('eip6963:requestProvider'));
+    }
+  });
+}
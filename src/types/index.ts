@@ -1,13 +1,27 @@
-import type { Bucket, FileListResponse, HealthStatus, InfoResponse, UserInfo } from '@storagehub-sdk/msp-client';
+import type {
+  Bucket,
+  FileListResponse,
+  HealthStatus,
+  InfoResponse,
+  UserInfo,
+  ValueProp,
+} from '@storagehub-sdk/msp-client';
+import type { ReplicationLevel } from '@storagehub-sdk/core';
+import type { EIP1193Provider } from 'viem';
 
-export type { Bucket, FileListResponse, HealthStatus, InfoResponse, UserInfo };
+export type { Bucket, FileListResponse, HealthStatus, InfoResponse, UserInfo, ValueProp };
 
 export interface AppState {
+  networkKey: string;
   isWalletConnected: boolean;
+  isWrongNetwork: boolean;
+  isDevSigner: boolean;
   isMspConnected: boolean;
   isAuthenticated: boolean;
   address: string | null;
   mspInfo: InfoResponse | null;
+  // Backend URL of the connected MSP
+  mspUrl: string | null;
   userProfile: UserInfo | null;
 }
 
@@ -17,10 +31,76 @@ export interface BucketCreationProgress {
 }
 
 export interface FileUploadProgress {
-  step: 'idle' | 'preparing' | 'issuing' | 'uploading' | 'confirming' | 'finalizing' | 'done' | 'error';
+  step:
+    | 'idle'
+    | 'preparing'
+    | 'issuing'
+    | 'uploading'
+    | 'confirming'
+    | 'finalizing'
+    | 'done'
+    | 'error'
+    | 'cancelling'
+    | 'cancelled'
+    | 'revoked';
   message: string;
 }
 
+// Requested BSP replication for a file; replicas only applies to ReplicationLevel.Custom
+export interface FileReplication {
+  level: ReplicationLevel;
+  replicas: number;
+}
+
+// Persisted record of an upload whose storage request is already on chain
+export interface UploadJournalEntry {
+  fileKey: string;
+  bucketId: string;
+  location: string;
+  fingerprint: string;
+  fileName: string;
+  fileSize: number;
+  owner: string;
+  networkKey: string;
+  // 'submitted' until the storage request transaction is in a block,
+  // 'uploading' until the MSP has accepted the file, then 'confirming'
+  stage: 'submitted' | 'uploading' | 'confirming';
+  // Storage request transaction, kept so a reload before its receipt can still follow it
+  txHash?: string;
+  updatedAt: number;
+}
+
+// BSP replication progress of a storage request
+export interface BspConfirmationStatus {
+  required: number;
+  confirmed: number;
+  volunteered: number;
+  bsps: { bspId: string; confirmed: boolean }[];
+  // The storage request left the chain because every required BSP confirmed
+  fulfilled: boolean;
+}
+
+// A local file and the path it will be stored under in the bucket
+export interface UploadSource {
+  file: File;
+  location: string;
+}
+
+export interface UploadQueueItem {
+  id: string;
+  bucketId: string;
+  file: File;
+  location: string;
+  replication: FileReplication;
+  fileKey?: string;
+  progress: FileUploadProgress;
+  // Step that was running when the upload failed
+  failedStep?: FileUploadProgress['step'];
+  // BSP replication, tracked in the background once the upload is done
+  bspConfirmation?: BspConfirmationStatus;
+  bspTrackingError?: string;
+}
+
 export interface BucketInfo {
   bucketId: string;
   userId: string;
@@ -29,3 +109,169 @@ export interface BucketInfo {
   root: string;
   valuePropositionId: string;
 }
+
+// EIP-6963 wallet provider metadata announced by browser extensions
+export interface WalletProviderInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+export interface WalletProviderDetail {
+  info: WalletProviderInfo;
+  provider: EIP1193Provider;
+}
+
+// Fee presets offered before sending a transaction
+export type GasSpeed = 'slow' | 'normal' | 'fast';
+
+export interface GasPreset {
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  // gas * (base fee + priority fee), in wei
+  estimatedCost: bigint;
+}
+
+export interface GasEstimate {
+  gas: bigint;
+  presets: Record<GasSpeed, GasPreset>;
+  // Storage deposit the call reserves on top of the fee, in wei
+  deposit?: bigint;
+}
+
+// Fee estimate for a batch of transactions, each costing roughly the same
+export interface BatchGasEstimate {
+  estimate: GasEstimate;
+  transactionCount: number;
+}
+
+// A write call on the filesystem precompile, with ABI-encoded arguments
+export interface FilesystemCall {
+  functionName: string;
+  args: readonly unknown[];
+}
+
+// Filesystem precompile transactions kept in the transaction history
+export type TransactionOperation =
+  | 'createBucket'
+  | 'deleteBucket'
+  | 'updateBucketPrivacy'
+  | 'requestMoveBucket'
+  | 'issueStorageRequest'
+  | 'revokeStorageRequest'
+  | 'requestDeleteFile';
+
+export type TransactionStatus = 'pending' | 'success' | 'reverted';
+
+// A precompile event decoded from a receipt log, with arguments rendered as strings
+export interface DecodedTransactionLog {
+  eventName: string;
+  args: Record<string, string>;
+}
+
+// Amounts are decimal strings so records survive JSON storage
+export interface TransactionRecord {
+  hash: `0x${string}`;
+  networkKey: string;
+  from: string;
+  operation: TransactionOperation;
+  bucketId?: string;
+  fileKey?: string;
+  location?: string;
+  status: TransactionStatus;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  fee?: string;
+  blockNumber?: string;
+  timestamp: number;
+  logs?: DecodedTransactionLog[];
+}
+
+// A bucket transaction whose follow-up steps must survive a page reload
+export interface PendingTransaction {
+  hash: `0x${string}`;
+  networkKey: string;
+  // Account that sent the transaction
+  owner: string;
+  operation: 'createBucket' | 'deleteBucket';
+  bucketId: string;
+  bucketName?: string;
+  // confirming: waiting for the receipt, verifying: checking chain state, waiting: waiting for the MSP backend
+  step: 'confirming' | 'verifying' | 'waiting';
+  updatedAt: number;
+}
+
+// Outcome of resuming a pending transaction after a reload, shown to the user
+export interface RecoveredTransaction {
+  hash: string;
+  operation: PendingTransaction['operation'];
+  bucketId: string;
+  bucketName?: string;
+  status: 'resuming' | 'done' | 'failed';
+  message: string;
+}
+
+// Projected storage cost, in wei
+export interface StorageCost {
+  perBlock: bigint;
+  perDay: bigint;
+  perMonth: bigint;
+  // Whether BSP fees are part of the figures, or only the MSP's value proposition
+  includesBsps: boolean;
+}
+
+// Everything needed to price stored data without further requests
+export interface StoragePricing {
+  valueProps: ValueProp[];
+  // Price each BSP replica costs per giga unit per tick, or null when the runtime doesn't expose it
+  bspPricePerGigaUnitPerTick: bigint | null;
+  blockTimeMs: number;
+}
+
+// Bucket ID a name derives to for the connected address, and whether it's already on chain
+export interface BucketNamePreview {
+  bucketName: string;
+  bucketId: string;
+  exists: boolean;
+}
+
+// Progress of deleting every file in a bucket and then the bucket itself
+export interface BucketEmptyingProgress {
+  step: 'listing' | 'deletingFiles' | 'waitingEmpty' | 'deletingBucket' | 'done' | 'error';
+  total: number;
+  deleted: number;
+  failures: { fileKey: string; location: string; error: string }[];
+  message: string;
+}
+
+// Details shared by main and backup storage providers in the providers pallet
+export interface StorageProviderDetails {
+  ownerAccount: string;
+  capacity: bigint;
+  capacityUsed: bigint;
+  multiaddresses: string[];
+  // Null when the runtime doesn't expose provider stakes
+  stake: bigint | null;
+}
+
+// Main storage provider registered in the providers pallet
+export interface MainStorageProvider extends StorageProviderDetails {
+  mspId: string;
+  valueProps: ValueProp[];
+}
+
+// Backup storage provider registered in the providers pallet
+export interface BackupStorageProvider extends StorageProviderDetails {
+  bspId: string;
+  reputationWeight: number;
+}
+
+// How a bucket move request ended
+export type BucketMoveOutcome = 'accepted' | 'rejected' | 'expired';
+
+// MSP backend to connect to, optionally pinned to an on-chain provider
+export interface MspSelection {
+  url?: string;
+  expectedMspId?: string;
+}
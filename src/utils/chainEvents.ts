@@ -0,0 +1,85 @@
+import '@storagehub/api-augment';
+import type { ApiPromise } from '@polkadot/api';
+import type { Event } from '@polkadot/types/interfaces';
+
+export interface ChainConditionOptions<T> {
+  // Reads chain state; returns a value once the condition holds. Throwing fails the wait.
+  check: () => Promise<T | undefined>;
+  // Whether a new event may have changed the outcome, in which case check runs again
+  isRelevant: (event: Event) => boolean;
+  timeoutMs?: number;
+  timeoutMessage?: string;
+  signal?: AbortSignal;
+}
+
+// Wait for an on-chain condition by re-checking state whenever a relevant event lands,
+// instead of polling storage on a timer
+export function waitForChainCondition<T>(api: ApiPromise, options: ChainConditionOptions<T>): Promise<T> {
+  const { check, isRelevant, timeoutMs = 120000, timeoutMessage = 'Timed out waiting for chain event', signal } = options;
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    const finish = (settle: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+      unsubscribe?.();
+      settle();
+    };
+
+    const onAbort = () => finish(() => reject(signal?.reason));
+    const timeout = setTimeout(() => finish(() => reject(new Error(timeoutMessage))), timeoutMs);
+
+    const runCheck = () => {
+      check().then(
+        (result) => {
+          if (result !== undefined) {
+            finish(() => resolve(result));
+          }
+        },
+        (err) => finish(() => reject(err))
+      );
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    api.query.system
+      .events((records) => {
+        if (records.some(({ event }) => isRelevant(event))) {
+          runCheck();
+        }
+      })
+      .then(
+        (unsub) => {
+          if (settled) {
+            unsub();
+          } else {
+            unsubscribe = unsub;
+          }
+        },
+        (err) => finish(() => reject(err))
+      );
+
+    // The condition may already hold before any relevant event arrives
+    runCheck();
+  });
+}
+
+// Whether an event carries the given file key in its fileKey field
+export function isFileKeyEvent(event: Event, fileKey: string): boolean {
+  const data = event.data as unknown as { fileKey?: { toHex: () => string } };
+  return data.fileKey?.toHex() === fileKey;
+}
+
+// Whether an event carries the given bucket ID in its bucketId field
+export function isBucketEvent(event: Event, bucketId: string): boolean {
+  const data = event.data as unknown as { bucketId?: { toHex: () => string } };
+  return data.bucketId?.toHex().toLowerCase() === bucketId.toLowerCase();
+}
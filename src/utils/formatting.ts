@@ -0,0 +1,20 @@
+import { formatUnits } from 'viem';
+
+// Format a native token amount in wei, e.g. "0.001234 MOCK"
+export function formatTokenAmount(amount: bigint, decimals: number, symbol: string, maxFractionDigits = 6): string {
+  const [whole, fraction = ''] = formatUnits(amount, decimals).split('.');
+  const trimmed = fraction.slice(0, maxFractionDigits).replace(/0+$/, '');
+  return `${trimmed ? `${whole}.${trimmed}` : whole} ${symbol}`;
+}
+
+// Format a byte count with a binary unit, e.g. "1.5 GB"
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,58 @@
+export interface PollOptions {
+  // Delay before the second attempt, doubled after every attempt up to maxDelayMs
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  // Overall time budget before giving up
+  timeoutMs?: number;
+  timeoutMessage?: string;
+  signal?: AbortSignal;
+}
+
+// Wait for a delay, rejecting early if the signal is aborted
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Call check until it returns a value, backing off exponentially between attempts
+export async function pollUntil<T>(check: () => Promise<T | undefined>, options: PollOptions = {}): Promise<T> {
+  const {
+    initialDelayMs = 1000,
+    maxDelayMs = 10000,
+    timeoutMs = 60000,
+    timeoutMessage = 'Timed out waiting for condition',
+    signal,
+  } = options;
+
+  const deadline = Date.now() + timeoutMs;
+  let delayMs = initialDelayMs;
+
+  for (;;) {
+    signal?.throwIfAborted();
+
+    const result = await check();
+    if (result !== undefined) {
+      return result;
+    }
+
+    if (Date.now() + delayMs > deadline) {
+      throw new Error(timeoutMessage);
+    }
+
+    await delay(delayMs, signal);
+    delayMs = Math.min(delayMs * 2, maxDelayMs);
+  }
+}